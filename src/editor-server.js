@@ -6,6 +6,14 @@
  *   PUT  /api/character-creation - Writes to characterCreation.json
  *   GET  /api/appearance-config  - Returns appearanceConfig.json
  *   PUT  /api/appearance-config  - Writes to appearanceConfig.json
+ *   GET  /api/scenarios          - Returns every scenario folder (config + content)
+ *   POST /api/scenarios          - Create a scenario folder
+ *   PUT  /api/scenarios/:id      - Update a scenario folder
+ *   DELETE /api/scenarios/:id    - Delete a scenario folder
+ *   POST /api/scenarios/rebuild  - Recompile public/scenarios.json
+ *   GET  /api/scenario-layout    - Returns node positions for the graph editor
+ *   PUT  /api/scenario-layout    - Writes node positions (scenarios/layout.json)
+ *   (every scenario write recompiles public/scenarios.json and returns the build result)
  *   POST /api/portraits/generate - Generate portraits for selected combinations
  *   GET  /api/portraits/pending  - Get list of pending portraits
  *   POST /api/portraits/accept/:id - Accept a pending portrait
@@ -27,6 +35,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import https from 'https';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 // editor-server.js is in src/, data files are in src/src/data/
@@ -37,6 +47,13 @@ const PENDING_DIR = path.join(PORTRAITS_DIR, 'pending');
 const PENDING_META_FILE = path.join(PENDING_DIR, 'pending.json');
 const BATCH_JOBS_FILE = path.join(DATA_DIR, 'batchJobs.json');
 
+// Scenario sources live at the repo root, one folder per scenario
+const SCENARIOS_DIR = path.join(__dirname, '..', 'scenarios');
+const BUILD_SCENARIOS_SCRIPT = path.join(__dirname, '..', 'tools', 'build-scenarios.js');
+const SCENARIO_REPORT_FILE = path.join(__dirname, '..', 'build', 'scenario-report.json');
+const SCENARIO_LAYOUT_FILE = path.join(SCENARIOS_DIR, 'layout.json');
+const SCENARIO_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
 // Option images paths
 const OPTIONS_DIR = path.join(PUBLIC_DIR, 'images', 'options');
 const OPTIONS_PENDING_DIR = path.join(OPTIONS_DIR, 'pending');
@@ -216,6 +233,245 @@ app.post('/api/names/delete', async (req, res) => {
   }
 });
 
+// ============================================
+// SCENARIO ENDPOINTS
+// ============================================
+
+const execFileAsync = promisify(execFile);
+
+// Builds run one at a time so overlapping saves don't write the bundle concurrently
+let scenarioBuildQueue = Promise.resolve();
+
+// Find the folder holding a scenario (folders are named after their scenario ID,
+// but the build only goes by the id in config.json)
+async function findScenarioDir(id) {
+  const entries = await fs.readdir(SCENARIOS_DIR, { withFileTypes: true });
+  for (const entry of entries.filter(e => e.isDirectory())) {
+    const dir = path.join(SCENARIOS_DIR, entry.name);
+    try {
+      const config = JSON.parse(await fs.readFile(path.join(dir, 'config.json'), 'utf-8'));
+      if (config.id === id) return dir;
+    } catch {
+      // Broken or half-written folder; the build reports it
+    }
+  }
+  return null;
+}
+
+// Read a scenario folder back into the compiled shape (config + content)
+async function readScenarioDir(dir) {
+  const [config, content] = await Promise.all([
+    fs.readFile(path.join(dir, 'config.json'), 'utf-8'),
+    fs.readFile(path.join(dir, 'content.md'), 'utf-8'),
+  ]);
+  return { ...JSON.parse(config), content };
+}
+
+// Split a scenario into its config.json and content.md
+async function writeScenarioDir(dir, scenario) {
+  const { content = '', ...config } = scenario;
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'config.json'), JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  await fs.writeFile(path.join(dir, 'content.md'), content, 'utf-8');
+}
+
+// Run tools/build-scenarios.js and return its report
+async function runScenarioBuild() {
+  try {
+    await execFileAsync(process.execPath, [BUILD_SCENARIOS_SCRIPT]);
+  } catch (err) {
+    // A non-zero exit just means errors or issues were found; the report lists them
+    if (typeof err.code !== 'number') throw err;
+  }
+  const report = JSON.parse(await fs.readFile(SCENARIO_REPORT_FILE, 'utf-8'));
+  return {
+    success: report.success,
+    errors: report.errors,
+    warnings: report.warnings,
+    issues: report.issues,
+  };
+}
+
+function rebuildScenarios() {
+  const build = scenarioBuildQueue.then(runScenarioBuild);
+  scenarioBuildQueue = build.catch(() => {});
+  return build;
+}
+
+// Graph editor node positions: scenario ID -> { x, y }
+async function readScenarioLayout() {
+  try {
+    return JSON.parse(await fs.readFile(SCENARIO_LAYOUT_FILE, 'utf-8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return {};
+    throw err;
+  }
+}
+
+async function writeScenarioLayout(layout) {
+  await fs.writeFile(SCENARIO_LAYOUT_FILE, JSON.stringify(layout, null, 2) + '\n', 'utf-8');
+}
+
+function validateScenarioBody(scenario) {
+  if (!scenario || typeof scenario !== 'object') return 'Scenario body is required';
+  if (!SCENARIO_ID_PATTERN.test(scenario.id ?? '')) {
+    return 'id must be lowercase letters, numbers and dashes';
+  }
+  if (!Array.isArray(scenario.choices)) return 'choices must be an array';
+  return null;
+}
+
+function validateScenarioLayout(layout) {
+  if (!layout || typeof layout !== 'object' || Array.isArray(layout)) {
+    return 'Layout must be an object of scenario ID -> { x, y }';
+  }
+  for (const [id, position] of Object.entries(layout)) {
+    if (!SCENARIO_ID_PATTERN.test(id)) {
+      return `${id}: scenario IDs must be lowercase letters, numbers and dashes`;
+    }
+    if (!position || !Number.isFinite(position.x) || !Number.isFinite(position.y)) {
+      return `${id}: position must be { x, y } numbers`;
+    }
+  }
+  return null;
+}
+
+// GET /api/scenarios - Every scenario as it is on disk (not the compiled bundle)
+app.get('/api/scenarios', async (req, res) => {
+  try {
+    const entries = await fs.readdir(SCENARIOS_DIR, { withFileTypes: true });
+    const scenarios = [];
+    for (const entry of entries.filter(e => e.isDirectory())) {
+      try {
+        scenarios.push(await readScenarioDir(path.join(SCENARIOS_DIR, entry.name)));
+      } catch (err) {
+        console.warn(`Skipping scenario folder ${entry.name}:`, err.message);
+      }
+    }
+    scenarios.sort((a, b) => a.id.localeCompare(b.id));
+    res.json(scenarios);
+  } catch (err) {
+    console.error('Error reading scenarios:', err);
+    res.status(500).json({ error: 'Failed to read scenarios' });
+  }
+});
+
+// GET /api/scenarios/:id
+app.get('/api/scenarios/:id', async (req, res) => {
+  try {
+    const dir = await findScenarioDir(req.params.id);
+    if (!dir) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+    res.json(await readScenarioDir(dir));
+  } catch (err) {
+    console.error('Error reading scenario:', err);
+    res.status(500).json({ error: 'Failed to read scenario' });
+  }
+});
+
+// POST /api/scenarios - Create a scenario folder named after its ID
+app.post('/api/scenarios', async (req, res) => {
+  try {
+    const invalid = validateScenarioBody(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (await findScenarioDir(req.body.id)) {
+      return res.status(409).json({ error: `Scenario ${req.body.id} already exists` });
+    }
+
+    await writeScenarioDir(path.join(SCENARIOS_DIR, req.body.id), req.body);
+    res.json({ success: true, build: await rebuildScenarios() });
+  } catch (err) {
+    console.error('Error creating scenario:', err);
+    res.status(500).json({ error: 'Failed to create scenario' });
+  }
+});
+
+// PUT /api/scenarios/:id - Replace a scenario's config and content (IDs can't change)
+app.put('/api/scenarios/:id', async (req, res) => {
+  try {
+    const invalid = validateScenarioBody(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (req.body.id !== req.params.id) {
+      return res.status(400).json({ error: 'Scenario IDs cannot be changed' });
+    }
+
+    const dir = await findScenarioDir(req.params.id);
+    if (!dir) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+
+    await writeScenarioDir(dir, req.body);
+    res.json({ success: true, build: await rebuildScenarios() });
+  } catch (err) {
+    console.error('Error updating scenario:', err);
+    res.status(500).json({ error: 'Failed to update scenario' });
+  }
+});
+
+// DELETE /api/scenarios/:id - Remove a scenario folder (links to it become build errors)
+app.delete('/api/scenarios/:id', async (req, res) => {
+  try {
+    const dir = await findScenarioDir(req.params.id);
+    if (!dir) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+
+    await fs.rm(dir, { recursive: true });
+
+    const layout = await readScenarioLayout();
+    if (layout[req.params.id]) {
+      delete layout[req.params.id];
+      await writeScenarioLayout(layout);
+    }
+
+    res.json({ success: true, build: await rebuildScenarios() });
+  } catch (err) {
+    console.error('Error deleting scenario:', err);
+    res.status(500).json({ error: 'Failed to delete scenario' });
+  }
+});
+
+// POST /api/scenarios/rebuild - Recompile without changing anything
+app.post('/api/scenarios/rebuild', async (req, res) => {
+  try {
+    res.json({ success: true, build: await rebuildScenarios() });
+  } catch (err) {
+    console.error('Error building scenarios:', err);
+    res.status(500).json({ error: 'Failed to build scenarios' });
+  }
+});
+
+// GET /api/scenario-layout - Node positions for the graph editor
+app.get('/api/scenario-layout', async (req, res) => {
+  try {
+    res.json(await readScenarioLayout());
+  } catch (err) {
+    console.error('Error reading scenario layout:', err);
+    res.status(500).json({ error: 'Failed to read scenario layout' });
+  }
+});
+
+// PUT /api/scenario-layout - Replace node positions (no rebuild; the game doesn't use them)
+app.put('/api/scenario-layout', async (req, res) => {
+  try {
+    const invalid = validateScenarioLayout(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    await writeScenarioLayout(req.body);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error writing scenario layout:', err);
+    res.status(500).json({ error: 'Failed to write scenario layout' });
+  }
+});
+
 // ============================================
 // PORTRAIT GENERATION ENDPOINTS
 // ============================================
@@ -2441,6 +2697,11 @@ app.delete('/api/options/batch/:id(*)', async (req, res) => {
 const PORT = 3001;
 app.listen(PORT, () => {
   console.log(`Editor server running at http://localhost:${PORT}`);
+  console.log('\nScenario editing:');
+  console.log('  GET     /api/scenarios');
+  console.log('  POST    /api/scenarios');
+  console.log('  PUT     /api/scenarios/:id');
+  console.log('  DELETE  /api/scenarios/:id');
   console.log('\nPortrait generation:');
   console.log('  POST    /api/portraits/generate');
   console.log('  GET     /api/portraits/pending');
@@ -1,75 +1,241 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { CharacterCreator } from './components/CharacterCreator';
 import { ScenarioPlayer } from './components/ScenarioPlayer';
-import type { Character, ScenarioBundle, GameState } from './types/game';
+import { ResumePrompt } from './components/ResumePrompt';
+import { SaveMenu } from './components/SaveMenu';
+import { Timeline } from './components/Timeline';
+import { EndingsGallery } from './components/EndingsGallery';
+import { InventoryPanel } from './components/InventoryPanel';
+import { PlaytestLauncher } from './components/PlaytestLauncher';
+import { ScenarioInspector } from './components/ScenarioInspector';
+import type {
+  Character,
+  CharacterBuilderState,
+  ScenarioBundle,
+  GameState,
+  Outcome,
+  SaveData,
+  EndingsCodex,
+  VariableDeclarations,
+  WorldVariables,
+} from './types/game';
+import { characterCreationData } from './data/characterCreation';
+import { appearanceConfig } from './data/appearanceConfig';
+import { selectStartScenario } from './engine/startSelection';
+import { createGameState, advanceGameState, rewindGameState, getVisitSeed } from './engine/gameState';
+import { createRng, createSeed, deriveSeed, parseSeed } from './engine/random';
+import { DEFAULT_AUTOPLAY_SETTINGS, type AutoplaySettings } from './engine/autoplay';
+import { AUTOSAVE_SLOT, createSave, writeSave, deleteSave, loadAllSaves, hasBuildProgress } from './engine/saves';
+import { loadEndingsCodex, recordEnding, saveEndingsCodex } from './engine/endings';
+import { buildCharacter } from './engine/characterBuilder';
+import { seedInventory } from './engine/inventory';
 import './App.css';
 
 type AppState =
   | { phase: 'loading' }
   | { phase: 'error'; message: string }
-  | { phase: 'character-creation' }
-  | { phase: 'playing'; gameState: GameState };
+  | { phase: 'resume'; saves: SaveData[] }
+  | { phase: 'character-creation'; initialState?: CharacterBuilderState }
+  | { phase: 'playing'; gameState: GameState; builderState: CharacterBuilderState; playtest?: boolean; runId: number };
+
+// What the playtest launcher opens with; builderState is the build to return to afterwards
+interface PlaytestLaunch {
+  character: Character;
+  builderState: CharacterBuilderState;
+  scenarioId?: string;
+  variables?: WorldVariables;
+}
+
+// Load saves, migrated and reconciled against the current content
+function loadSaves(scenarios: ScenarioBundle, declarations: VariableDeclarations): SaveData[] {
+  return loadAllSaves(characterCreationData, appearanceConfig, scenarios, declarations);
+}
+
+// Fetch a compiled content file from public/
+async function fetchContent<T>(file: string): Promise<T> {
+  const res = await fetch(`${import.meta.env.BASE_URL}${file}`);
+  if (!res.ok) throw new Error(`Failed to load ${file}`);
+  return res.json();
+}
+
+// Fetch the compiled scenario bundle and its variable declarations
+function loadContent(): Promise<[ScenarioBundle, VariableDeclarations]> {
+  return Promise.all([
+    fetchContent<ScenarioBundle>('scenarios.json'),
+    fetchContent<VariableDeclarations>('variables.json'),
+  ]);
+}
 
 function App() {
   const [scenarios, setScenarios] = useState<ScenarioBundle | null>(null);
+  const [declarations, setDeclarations] = useState<VariableDeclarations>({});
   const [appState, setAppState] = useState<AppState>({ phase: 'loading' });
+  const [menuSaves, setMenuSaves] = useState<SaveData[] | null>(null); // non-null = save menu open
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [autoplay, setAutoplay] = useState<AutoplaySettings>(DEFAULT_AUTOPLAY_SETTINGS);
+  const [codex, setCodex] = useState<EndingsCodex>(loadEndingsCodex);
+  const [showEndings, setShowEndings] = useState(false);
+  const [playtestLaunch, setPlaytestLaunch] = useState<PlaytestLaunch | null>(null); // non-null = launcher open
+  const [showInspector, setShowInspector] = useState(true);
+  const runCount = useRef(0); // Numbers each run started, so two runs never share a visit key
 
-  // Load scenarios on mount
+  // Load scenarios and world-state variable declarations on mount
   useEffect(() => {
-    fetch(`${import.meta.env.BASE_URL}scenarios.json`)
-      .then(res => {
-        if (!res.ok) throw new Error('Failed to load scenarios');
-        return res.json();
-      })
-      .then((data: ScenarioBundle) => {
+    loadContent()
+      .then(([data, variables]) => {
         setScenarios(data);
-        setAppState({ phase: 'character-creation' });
+        setDeclarations(variables);
+        // Offer to resume if there are saved builds or runs
+        const saves = loadSaves(data, variables);
+        setAppState(saves.length > 0 ? { phase: 'resume', saves } : { phase: 'character-creation' });
       })
       .catch(err => {
         setAppState({ phase: 'error', message: err.message });
       });
   }, []);
 
-  const findStartScenario = (): string | null => {
-    if (!scenarios) return null;
-    const start = Object.values(scenarios).find(s => s.isStart);
-    return start?.id ?? null;
+  // Pick up a bundle rebuilt by the scenario editor
+  const handleScenariosRebuilt = useCallback(() => {
+    loadContent()
+      .then(([data, variables]) => {
+        setScenarios(data);
+        setDeclarations(variables);
+      })
+      .catch(err => console.error('Failed to reload scenarios:', err));
+  }, []);
+
+  // Enter (or continue) a run, autosaving it unless it's a playtest
+  const startPlaying = (gameState: GameState, builderState: CharacterBuilderState, playtest = false) => {
+    if (!playtest) {
+      writeSave(createSave(AUTOSAVE_SLOT, builderState, gameState));
+    }
+    setAppState({ phase: 'playing', gameState, builderState, playtest, runId: runCount.current });
+  };
+
+  // Enter a new run (a fresh start, a loaded save or a playtest)
+  const startRun = (gameState: GameState, builderState: CharacterBuilderState, playtest = false) => {
+    runCount.current++;
+    startPlaying(gameState, builderState, playtest);
   };
 
-  const handleCharacterComplete = (character: Character) => {
-    const startId = findStartScenario();
+  // Autosave the build while it's in progress (an empty build would overwrite a saved run)
+  const handleBuilderChange = useCallback((builderState: CharacterBuilderState) => {
+    if (!hasBuildProgress(builderState)) return;
+    writeSave(createSave(AUTOSAVE_SLOT, builderState, null));
+  }, []);
+
+  const handleCharacterComplete = (build: Character, builderState: CharacterBuilderState) => {
+    if (!scenarios) return;
+
+    // The run starts with the items the build's gear picks grant
+    const character = seedInventory(build, characterCreationData.categories);
+
+    // A ?seed= URL parameter replays a specific run (e.g. from a bug report)
+    const seed = parseSeed(new URLSearchParams(window.location.search).get('seed')) ?? createSeed();
+
+    const startId = selectStartScenario(scenarios, character, createRng(deriveSeed(seed, 'start')));
     if (!startId) {
-      setAppState({ phase: 'error', message: 'No start scenario found' });
+      setAppState({ phase: 'error', message: 'No start scenario available for this character' });
       return;
     }
 
-    setAppState({
-      phase: 'playing',
-      gameState: {
-        character,
-        currentScenarioId: startId,
-        history: [startId],
-      },
-    });
+    startRun(createGameState(character, startId, scenarios, seed, declarations), builderState);
+  };
+
+  const handleChoice = (outcome: Outcome, choiceIndex: number) => {
+    if (appState.phase !== 'playing' || !scenarios) return;
+
+    const { builderState, playtest } = appState;
+    startPlaying(advanceGameState(appState.gameState, outcome, choiceIndex, scenarios), builderState, playtest);
+
+    // Record the build (not the runtime character) that reached the ending
+    if (scenarios[outcome.next]?.isEnding && !playtest) {
+      const updated = recordEnding(codex, outcome.next, buildCharacter(appState.builderState));
+      saveEndingsCodex(updated);
+      setCodex(updated);
+    }
   };
 
-  const handleChoice = (nextScenarioId: string) => {
+  const handleRewind = (timelineIndex: number) => {
     if (appState.phase !== 'playing') return;
 
-    setAppState({
-      phase: 'playing',
-      gameState: {
-        ...appState.gameState,
-        currentScenarioId: nextScenarioId,
-        history: [...appState.gameState.history, nextScenarioId],
-      },
-    });
+    setShowTimeline(false);
+    setAutoplay(prev => ({ ...prev, running: false }));
+    startPlaying(rewindGameState(appState.gameState, timelineIndex), appState.builderState, appState.playtest);
   };
 
+  // A playtest goes back to the build that was being edited
   const handleRestart = () => {
-    setAppState({ phase: 'character-creation' });
+    setAutoplay(prev => ({ ...prev, running: false }));
+    const initialState = appState.phase === 'playing' && appState.playtest ? appState.builderState : undefined;
+    setAppState({ phase: 'character-creation', initialState });
+  };
+
+  // Open the playtest launcher from the character creator's Edit Mode
+  const handleOpenPlaytest = (build: Character, builderState: CharacterBuilderState) => {
+    setPlaytestLaunch({ character: seedInventory(build, characterCreationData.categories), builderState });
+  };
+
+  // Start a playtest run: a fresh seed, the given world state, and no autosave
+  const handlePlaytest = (character: Character, scenarioId: string, variables: WorldVariables) => {
+    if (!scenarios || !playtestLaunch) return;
+
+    setPlaytestLaunch(null);
+    setShowTimeline(false);
+    setAutoplay(prev => ({ ...prev, running: false }));
+    const gameState = createGameState(character, scenarioId, scenarios, createSeed(), declarations, variables);
+    startRun(gameState, playtestLaunch.builderState, true);
+  };
+
+  const handleLoadSave = (save: SaveData) => {
+    setMenuSaves(null);
+    if (save.gameState) {
+      startRun(save.gameState, save.builderState);
+    } else {
+      setAppState({ phase: 'character-creation', initialState: save.builderState });
+    }
+  };
+
+  const handleDeleteSave = (slotId: string) => {
+    deleteSave(slotId);
+    if (!scenarios) return;
+
+    const saves = loadSaves(scenarios, declarations);
+    if (appState.phase === 'resume') {
+      setAppState(saves.length > 0 ? { phase: 'resume', saves } : { phase: 'character-creation' });
+    } else if (menuSaves) {
+      setMenuSaves(saves);
+    }
   };
 
+  const handleSaveToSlot = (slotId: string) => {
+    if (appState.phase !== 'playing' || !scenarios) return;
+    writeSave(createSave(slotId, appState.builderState, appState.gameState));
+    setMenuSaves(loadSaves(scenarios, declarations));
+  };
+
+  const endingsGallery = showEndings && scenarios && (
+    <EndingsGallery
+      scenarios={scenarios}
+      codex={codex}
+      categories={characterCreationData.categories}
+      onClose={() => setShowEndings(false)}
+    />
+  );
+
+  const playtestLauncher = playtestLaunch && scenarios && (
+    <PlaytestLauncher
+      scenarios={scenarios}
+      declarations={declarations}
+      saves={loadSaves(scenarios, declarations)}
+      character={playtestLaunch.character}
+      scenarioId={playtestLaunch.scenarioId}
+      variables={playtestLaunch.variables}
+      onStart={handlePlaytest}
+      onClose={() => setPlaytestLaunch(null)}
+    />
+  );
+
   // Render based on state
   if (appState.phase === 'loading') {
     return <div className="loading">Loading scenarios...</div>;
@@ -84,8 +250,32 @@ function App() {
     );
   }
 
+  if (appState.phase === 'resume') {
+    return (
+      <ResumePrompt
+        saves={appState.saves}
+        onResume={handleLoadSave}
+        onDelete={handleDeleteSave}
+        onNewCharacter={handleRestart}
+      />
+    );
+  }
+
   if (appState.phase === 'character-creation') {
-    return <CharacterCreator onComplete={handleCharacterComplete} />;
+    return (
+      <>
+        <CharacterCreator
+          onComplete={handleCharacterComplete}
+          initialState={appState.initialState}
+          onStateChange={handleBuilderChange}
+          onOpenEndings={() => setShowEndings(true)}
+          onScenariosRebuilt={handleScenariosRebuilt}
+          onOpenPlaytest={handleOpenPlaytest}
+        />
+        {endingsGallery}
+        {playtestLauncher}
+      </>
+    );
   }
 
   if (appState.phase === 'playing' && scenarios) {
@@ -99,18 +289,89 @@ function App() {
       );
     }
 
+    const { gameState, builderState, playtest } = appState;
+
     return (
-      <div className="game-container">
+      <div className={`game-container ${playtest && showInspector ? 'with-inspector' : ''}`}>
         <header className="game-header">
+          {playtest && <span className="playtest-badge" title="Not autosaved or recorded">Playtest</span>}
           <span className="character-name">{appState.gameState.character.name}</span>
           <span className="step-counter">Step {appState.gameState.history.length}</span>
+          <InventoryPanel inventory={appState.gameState.character.inventory ?? []} />
+          <span className="run-seed" title="Add ?seed= to the URL to replay this run">
+            Seed {appState.gameState.seed}
+          </span>
+          <button className="save-menu-btn" onClick={() => setShowTimeline(true)}>
+            Timeline
+          </button>
+          {playtest ? (
+            <>
+              <button className="save-menu-btn" onClick={() => setShowInspector(!showInspector)}>
+                Inspector
+              </button>
+              <button
+                className="save-menu-btn"
+                onClick={() =>
+                  setPlaytestLaunch({
+                    character: gameState.character,
+                    builderState,
+                    scenarioId: gameState.currentScenarioId,
+                    variables: gameState.variables,
+                  })
+                }
+              >
+                Jump…
+              </button>
+            </>
+          ) : (
+            <button className="save-menu-btn" onClick={() => setMenuSaves(loadSaves(scenarios, declarations))}>
+              Saves
+            </button>
+          )}
         </header>
+        {/* Keyed per visit so per-visit UI state (e.g. a rolled check) resets */}
         <ScenarioPlayer
+          key={`${appState.runId}:${appState.gameState.history.length}`}
           scenario={currentScenario}
           character={appState.gameState.character}
+          variables={appState.gameState.variables}
+          visitSeed={getVisitSeed(appState.gameState)}
+          exploredChoices={appState.gameState.explored[currentScenario.id] ?? []}
           onChoice={handleChoice}
           onRestart={handleRestart}
+          onOpenTimeline={() => setShowTimeline(true)}
+          onOpenEndings={() => setShowEndings(true)}
+          autoplay={autoplay}
+          onAutoplayChange={setAutoplay}
         />
+        {playtest && showInspector && (
+          <ScenarioInspector
+            scenario={currentScenario}
+            character={gameState.character}
+            variables={gameState.variables}
+            visitSeed={getVisitSeed(gameState)}
+            onClose={() => setShowInspector(false)}
+          />
+        )}
+        {showTimeline && (
+          <Timeline
+            gameState={appState.gameState}
+            scenarios={scenarios}
+            onRewind={handleRewind}
+            onClose={() => setShowTimeline(false)}
+          />
+        )}
+        {menuSaves && (
+          <SaveMenu
+            saves={menuSaves}
+            onSave={handleSaveToSlot}
+            onLoad={handleLoadSave}
+            onDelete={handleDeleteSave}
+            onClose={() => setMenuSaves(null)}
+          />
+        )}
+        {endingsGallery}
+        {playtestLauncher}
       </div>
     );
   }
@@ -2,6 +2,8 @@
  * API client for the editor server
  */
 
+import type { Scenario } from '../types/game';
+
 const EDITOR_API_BASE = 'http://localhost:3001/api';
 
 export interface EditorApiError {
@@ -648,3 +650,104 @@ export async function deleteNameFromList(
     throw new Error('Failed to delete name');
   }
 }
+
+// ============================================
+// SCENARIOS API
+// ============================================
+
+// A graph problem found by the scenario build (see tools/build-scenarios.js)
+export interface ScenarioIssue {
+  type: 'unreachable' | 'dead-end' | 'missing-default' | 'shadowed-outcome' | 'all-choices-gated';
+  scenario: string;
+  choice?: number;
+  message: string;
+}
+
+// Result of recompiling public/scenarios.json
+export interface ScenarioBuildResult {
+  success: boolean;
+  errors: string[];
+  warnings: string[];
+  issues: ScenarioIssue[];
+}
+
+async function sendScenarioRequest(path: string, method: string, fallbackError: string, body?: unknown): Promise<ScenarioBuildResult> {
+  const response = await fetch(`${EDITOR_API_BASE}/scenarios${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallbackError);
+  }
+  const result = await response.json();
+  return result.build;
+}
+
+/**
+ * Fetch every scenario source (config + content) from the editor server
+ */
+export async function fetchScenarios(): Promise<Scenario[]> {
+  const response = await fetch(`${EDITOR_API_BASE}/scenarios`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch scenarios');
+  }
+  return response.json();
+}
+
+/**
+ * Create a scenario folder; rebuilds the bundle
+ */
+export async function createScenario(scenario: Scenario): Promise<ScenarioBuildResult> {
+  return sendScenarioRequest('', 'POST', 'Failed to create scenario', scenario);
+}
+
+/**
+ * Overwrite a scenario's config and content; rebuilds the bundle
+ */
+export async function saveScenario(scenario: Scenario): Promise<ScenarioBuildResult> {
+  return sendScenarioRequest(`/${encodeURIComponent(scenario.id)}`, 'PUT', 'Failed to save scenario', scenario);
+}
+
+/**
+ * Delete a scenario folder; rebuilds the bundle
+ */
+export async function deleteScenario(id: string): Promise<ScenarioBuildResult> {
+  return sendScenarioRequest(`/${encodeURIComponent(id)}`, 'DELETE', 'Failed to delete scenario');
+}
+
+/**
+ * Recompile public/scenarios.json without changing anything
+ */
+export async function rebuildScenarios(): Promise<ScenarioBuildResult> {
+  return sendScenarioRequest('/rebuild', 'POST', 'Failed to build scenarios');
+}
+
+// Graph editor node positions, stored in scenarios/layout.json
+export type ScenarioLayout = Record<string, { x: number; y: number }>;
+
+/**
+ * Fetch node positions for the scenario graph editor
+ */
+export async function fetchScenarioLayout(): Promise<ScenarioLayout> {
+  const response = await fetch(`${EDITOR_API_BASE}/scenario-layout`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch scenario layout');
+  }
+  return response.json();
+}
+
+/**
+ * Save node positions for the scenario graph editor
+ */
+export async function saveScenarioLayout(layout: ScenarioLayout): Promise<void> {
+  const response = await fetch(`${EDITOR_API_BASE}/scenario-layout`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(layout),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to save scenario layout');
+  }
+}
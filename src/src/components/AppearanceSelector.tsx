@@ -11,8 +11,10 @@ import type {
 } from '../types/game';
 import { useEditMode } from '../contexts/EditModeContext';
 import { PortraitManager } from './PortraitManager';
+import { setAppearancePick } from '../engine/characterBuilder';
 
-type AppearanceStep = 'build' | 'skinTone' | 'hairColor' | 'portrait';
+// Extra axes from the appearance config get an optional `extra:<axis id>` step
+type AppearanceStep = 'build' | 'skinTone' | 'hairColor' | 'portrait' | `extra:${string}`;
 type AppearanceOptionType = 'build' | 'skinTone' | 'hairColor';
 
 interface AppearanceSelectorProps {
@@ -24,43 +26,53 @@ interface AppearanceSelectorProps {
 }
 
 interface StepIndicatorProps {
+  steps: { id: AppearanceStep; label: string }[];
   currentStep: AppearanceStep;
   selections: AppearanceSelections;
   onStepClick: (step: AppearanceStep) => void;
   editMode: boolean;
 }
 
-const STEPS: { id: AppearanceStep; label: string }[] = [
-  { id: 'build', label: 'Build' },
-  { id: 'skinTone', label: 'Skin Tone' },
-  { id: 'hairColor', label: 'Hair Color' },
-  { id: 'portrait', label: 'Portrait' },
-];
-
-function StepIndicator({ currentStep, selections, onStepClick, editMode }: StepIndicatorProps) {
-  const isStepComplete = (step: AppearanceStep): boolean => {
-    switch (step) {
-      case 'build': return !!selections.build;
-      case 'skinTone': return !!selections.skinTone;
-      case 'hairColor': return !!selections.hairColor;
-      case 'portrait': return !!selections.portraitId;
-    }
-  };
+// Built-in steps, then one per extra axis, then the portrait
+function getSteps(config: AppearanceConfig): { id: AppearanceStep; label: string }[] {
+  return [
+    { id: 'build', label: 'Build' },
+    { id: 'skinTone', label: 'Skin Tone' },
+    { id: 'hairColor', label: 'Hair Color' },
+    ...(config.extraAxes ?? []).map(axis => ({ id: `extra:${axis.id}` as const, label: `${axis.name} (optional)` })),
+    { id: 'portrait', label: 'Portrait' },
+  ];
+}
+
+function isOptionalStep(step: AppearanceStep): boolean {
+  return step.startsWith('extra:');
+}
+
+function isStepComplete(step: AppearanceStep, selections: AppearanceSelections): boolean {
+  switch (step) {
+    case 'build': return !!selections.build;
+    case 'skinTone': return !!selections.skinTone;
+    case 'hairColor': return !!selections.hairColor;
+    case 'portrait': return !!selections.portraitId;
+    default: return !!selections.extra?.[step.slice('extra:'.length)];
+  }
+}
 
+function StepIndicator({ steps, currentStep, selections, onStepClick, editMode }: StepIndicatorProps) {
   const isStepAccessible = (step: AppearanceStep): boolean => {
     if (editMode) return true; // All steps accessible in edit mode
-    const stepIndex = STEPS.findIndex(s => s.id === step);
+    const stepIndex = steps.findIndex(s => s.id === step);
     if (stepIndex === 0) return true;
     for (let i = 0; i < stepIndex; i++) {
-      if (!isStepComplete(STEPS[i].id)) return false;
+      if (!isOptionalStep(steps[i].id) && !isStepComplete(steps[i].id, selections)) return false;
     }
     return true;
   };
 
   return (
     <div className="appearance-steps">
-      {STEPS.map((step, index) => {
-        const complete = isStepComplete(step.id);
+      {steps.map((step, index) => {
+        const complete = isStepComplete(step.id, selections);
         const accessible = isStepAccessible(step.id);
         const active = currentStep === step.id;
 
@@ -86,10 +98,10 @@ interface OptionGridProps<T extends string> {
   selectedId?: T;
   onSelect: (id: T) => void;
   editMode: boolean;
-  optionType: AppearanceOptionType;
-  onEdit: (option: AppearanceOption & { id: T }) => void;
-  onDelete: (id: T) => void;
-  onAdd: () => void;
+  optionType?: AppearanceOptionType; // Unset for extra axes, which Edit Mode can't edit
+  onEdit?: (option: AppearanceOption & { id: T }) => void;
+  onDelete?: (id: T) => void;
+  onAdd?: () => void;
 }
 
 function OptionGrid<T extends string>({
@@ -102,20 +114,22 @@ function OptionGrid<T extends string>({
   onDelete,
   onAdd,
 }: OptionGridProps<T>) {
+  const editable = editMode && optionType !== undefined;
+
   const handleDelete = (id: T, e: React.MouseEvent) => {
     e.stopPropagation();
     if (confirm('Are you sure you want to delete this option?')) {
-      onDelete(id);
+      onDelete?.(id);
     }
   };
 
   return (
     <div className="appearance-options-grid">
       {options.map(option => (
-        <div key={option.id} className={`option-card-wrapper ${editMode ? 'edit-mode' : ''}`}>
+        <div key={option.id} className={`option-card-wrapper ${editable ? 'edit-mode' : ''}`}>
           <button
             className={`appearance-option ${selectedId === option.id ? 'selected' : ''}`}
-            onClick={() => !editMode && onSelect(option.id)}
+            onClick={() => !editable && onSelect(option.id)}
           >
             {option.image && (
               <div className="appearance-option-image">
@@ -132,6 +146,15 @@ function OptionGrid<T extends string>({
                 )}
               </h4>
               <p className="appearance-option-description">{option.description}</p>
+              {option.attributes && Object.keys(option.attributes).length > 0 && (
+                <div className="effect-row">
+                  {Object.entries(option.attributes).map(([attr, value]) => (
+                    <span key={attr} className={`attr-mod ${value > 0 ? 'positive' : 'negative'}`}>
+                      {attr.slice(0, 3).toUpperCase()} {value > 0 ? '+' : ''}{value}
+                    </span>
+                  ))}
+                </div>
+              )}
               {option.traits && option.traits.length > 0 && (
                 <div className="appearance-option-traits">
                   {option.traits.map(trait => (
@@ -141,9 +164,9 @@ function OptionGrid<T extends string>({
               )}
             </div>
           </button>
-          {editMode && (
+          {editable && (
             <div className="edit-buttons">
-              <button className="edit-btn" onClick={() => onEdit(option)} title="Edit option">
+              <button className="edit-btn" onClick={() => onEdit?.(option)} title="Edit option">
                 Edit
               </button>
               <button className="delete-btn" onClick={(e) => handleDelete(option.id, e)} title="Delete option">
@@ -153,7 +176,7 @@ function OptionGrid<T extends string>({
           )}
         </div>
       ))}
-      {editMode && (
+      {editable && (
         <button className="add-option-card" onClick={onAdd}>
           <span className="add-icon">+</span>
           <span>Add {optionType === 'build' ? 'Build' : optionType === 'skinTone' ? 'Skin Tone' : 'Hair Color'}</span>
@@ -212,14 +235,18 @@ export function AppearanceSelector({
 
   // Use live data from context if available
   const liveConfig = appearanceData ?? config;
+  const steps = getSteps(liveConfig);
 
   // Track current step explicitly (allows navigating back without losing selections)
-  const [currentStep, setCurrentStep] = useState<AppearanceStep>(() => {
-    if (!selections.build) return 'build';
-    if (!selections.skinTone) return 'skinTone';
-    if (!selections.hairColor) return 'hairColor';
-    return 'portrait';
-  });
+  const [currentStep, setCurrentStep] = useState<AppearanceStep>(
+    () => steps.find(step =>
+      step.id !== 'portrait' && !isOptionalStep(step.id) && !isStepComplete(step.id, selections)
+    )?.id ?? 'portrait'
+  );
+
+  // The step after the given one (the portrait is always last)
+  const nextStep = (step: AppearanceStep): AppearanceStep =>
+    steps[steps.findIndex(s => s.id === step) + 1]?.id ?? 'portrait';
 
   // Filter portraits based on selections, sex, and race
   const filteredPortraits = useMemo(() => {
@@ -251,7 +278,12 @@ export function AppearanceSelector({
 
   const handleHairColorSelect = (id: HairColor) => {
     onUpdate({ ...selections, hairColor: id });
-    setCurrentStep('portrait');
+    setCurrentStep(nextStep('hairColor'));
+  };
+
+  const handleExtraSelect = (axisId: string, id: string) => {
+    onUpdate(setAppearancePick(selections, axisId, id));
+    setCurrentStep(nextStep(`extra:${axisId}`));
   };
 
   const handlePortraitSelect = (id: string) => {
@@ -341,6 +373,29 @@ export function AppearanceSelector({
             )}
           </>
         );
+
+      default: {
+        // Extra axes are edited in appearanceConfig.json, not in Edit Mode
+        const axis = liveConfig.extraAxes?.find(a => `extra:${a.id}` === currentStep);
+        if (!axis) return null;
+        return (
+          <>
+            <div className="appearance-step-header">
+              <h3>Choose Your {axis.name}</h3>
+              {axis.description && <p>{axis.description}</p>}
+              <button className="nav-button" onClick={() => setCurrentStep(nextStep(currentStep))}>
+                Skip →
+              </button>
+            </div>
+            <OptionGrid
+              options={axis.options}
+              selectedId={selections.extra?.[axis.id]}
+              onSelect={(id) => handleExtraSelect(axis.id, id)}
+              editMode={editMode}
+            />
+          </>
+        );
+      }
     }
   };
 
@@ -359,12 +414,17 @@ export function AppearanceSelector({
       const hair = liveConfig.hairColors.find(h => h.id === selections.hairColor);
       if (hair) parts.push(hair.name + ' hair');
     }
+    for (const axis of liveConfig.extraAxes ?? []) {
+      const option = axis.options.find(o => o.id === selections.extra?.[axis.id]);
+      if (option) parts.push(option.name);
+    }
     return parts.join(', ');
   }, [selections, liveConfig]);
 
   return (
     <div className="appearance-selector">
       <StepIndicator
+        steps={steps}
         currentStep={currentStep}
         selections={selections}
         onStepClick={handleStepClick}
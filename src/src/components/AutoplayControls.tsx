@@ -0,0 +1,55 @@
+import { AUTOPLAY_SPEEDS, DECISION_POLICIES, getDecisionPolicy, type AutoplaySettings } from '../engine/autoplay';
+
+interface AutoplayControlsProps {
+  settings: AutoplaySettings;
+  onChange: (settings: AutoplaySettings) => void;
+  onStep: () => void;
+  canStep: boolean;
+}
+
+export function AutoplayControls({ settings, onChange, onStep, canStep }: AutoplayControlsProps) {
+  const policy = getDecisionPolicy(settings.policyId);
+
+  return (
+    <div className={`autoplay-controls ${settings.running ? 'running' : ''}`}>
+      <button
+        className="autoplay-toggle"
+        onClick={() => onChange({ ...settings, running: !settings.running })}
+        title={settings.running ? 'Pause autoplay' : 'Let the character choose'}
+      >
+        {settings.running ? '❚❚ Pause' : '▶ Autoplay'}
+      </button>
+      <button
+        className="autoplay-step"
+        onClick={onStep}
+        disabled={settings.running || !canStep}
+        title="Let the character make one decision"
+      >
+        Step
+      </button>
+
+      <select
+        className="autoplay-policy"
+        value={policy.id}
+        onChange={e => onChange({ ...settings, policyId: e.target.value })}
+        title={policy.description}
+      >
+        {DECISION_POLICIES.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+
+      <div className="autoplay-speeds">
+        {AUTOPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed.delayMs}
+            className={`autoplay-speed ${settings.delayMs === speed.delayMs ? 'active' : ''}`}
+            onClick={() => onChange({ ...settings, delayMs: speed.delayMs })}
+          >
+            {speed.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -157,6 +157,20 @@ export function CategoryEditorModal() {
             )}
           </div>
 
+          <div className="form-group">
+            <label htmlFor="cat-prerequisite-lost">When a pick's requirements stop being met</label>
+            <select
+              id="cat-prerequisite-lost"
+              value={formData.onPrerequisiteLost ?? 'remove'}
+              onChange={e =>
+                setFormData({ ...formData, onPrerequisiteLost: e.target.value === 'block' ? 'block' : undefined })
+              }
+            >
+              <option value="remove">Remove it (the player sees a notice)</option>
+              <option value="block">Block the change that breaks them</option>
+            </select>
+          </div>
+
           {!isCreatingNewCategory && (
             <div className="category-stats">
               <span>{formData.options.length} option{formData.options.length !== 1 ? 's' : ''} in this category</span>
@@ -1,8 +1,32 @@
 import { useMemo } from 'react';
 import { getImageUrl } from '../utils/imagePath';
-import type { CategoryConfig, CharacterOption, CharacterBuilderState, OptionRequirement } from '../types/game';
+import type { CategoryConfig, Character, CharacterOption, CharacterBuilderState, OptionRequirement } from '../types/game';
+import { buildCharacter, checkRequirement, splitRequirement } from '../engine/characterBuilder';
 import { useEditMode } from '../contexts/EditModeContext';
 
+function formatAttributeName(id: string): string {
+  return id.charAt(0).toUpperCase() + id.slice(1);
+}
+
+// Short form of a requirement for use inside a group, e.g. "Strength >= 2 AND (trait warrior OR trait brawler)"
+function describeRequirement(req: OptionRequirement): string {
+  // Parenthesize nested groups so precedence stays readable
+  const describeNested = (r: OptionRequirement) =>
+    r.any || r.all || splitRequirement(r).length > 1 ? `(${describeRequirement(r)})` : describeRequirement(r);
+
+  return splitRequirement(req).map(part => {
+    if (part.trait) return `trait ${part.trait}`;
+    if (part.notTrait) return `no trait ${part.notTrait}`;
+    if (part.attribute) return `${formatAttributeName(part.attribute.id)} ${part.attribute.op} ${part.attribute.value}`;
+    if (part.selection) return `selected ${part.selection.optionId}`;
+    if (part.notSelection) return `not selected ${part.notSelection.optionId}`;
+    if (part.all) return part.all.map(describeNested).join(' AND ');
+    if (part.any) return part.any.map(describeNested).join(' OR ');
+    if (part.not) return `NOT ${describeNested(part.not)}`;
+    return 'prerequisites';
+  }).join(' AND ');
+}
+
 // Format a single requirement into human-readable text
 function formatRequirement(req: OptionRequirement): string {
   if (req.trait) {
@@ -12,8 +36,7 @@ function formatRequirement(req: OptionRequirement): string {
     return `Cannot have trait: ${req.notTrait}`;
   }
   if (req.attribute) {
-    const attrName = req.attribute.id.charAt(0).toUpperCase() + req.attribute.id.slice(1);
-    return `Requires ${attrName} ${req.attribute.op} ${req.attribute.value}`;
+    return `Requires ${formatAttributeName(req.attribute.id)} ${req.attribute.op} ${req.attribute.value}`;
   }
   if (req.selection) {
     return `Requires selection: ${req.selection.optionId}`;
@@ -21,9 +44,25 @@ function formatRequirement(req: OptionRequirement): string {
   if (req.notSelection) {
     return `Cannot have selected: ${req.notSelection.optionId}`;
   }
+  if (req.any) {
+    return `Requires one of: ${req.any.map(describeRequirement).join(' / ')}`;
+  }
+  if (req.not) {
+    return `Cannot have: ${describeRequirement(req.not)}`;
+  }
+  if (req.all) {
+    return `Requires all of: ${req.all.map(describeRequirement).join(' / ')}`;
+  }
   return 'Requires prerequisites';
 }
 
+// Explain an unmet requirement: each failing field, and for AND groups each failing clause
+function explainUnmet(req: OptionRequirement, character: Character): string[] {
+  return splitRequirement(req)
+    .filter(part => !checkRequirement(part, character))
+    .flatMap(part => (part.all ? part.all.flatMap(r => explainUnmet(r, character)) : [formatRequirement(part)]));
+}
+
 // Get all unmet requirements as readable strings
 function getUnmetRequirements(
   option: CharacterOption,
@@ -31,41 +70,8 @@ function getUnmetRequirements(
 ): string[] {
   if (!option.requires) return [];
 
-  const unmet: string[] = [];
-
-  for (const req of option.requires) {
-    let isMet = true;
-
-    if (req.trait && !state.calculatedTraits.includes(req.trait)) {
-      isMet = false;
-    }
-    if (req.notTrait && state.calculatedTraits.includes(req.notTrait)) {
-      isMet = false;
-    }
-    if (req.attribute) {
-      const value = state.calculatedAttributes[req.attribute.id] ?? 0;
-      switch (req.attribute.op) {
-        case '>=': isMet = value >= req.attribute.value; break;
-        case '>': isMet = value > req.attribute.value; break;
-        case '<=': isMet = value <= req.attribute.value; break;
-        case '<': isMet = value < req.attribute.value; break;
-      }
-    }
-    if (req.selection) {
-      const categorySelections = state.selections[req.selection.category] || [];
-      isMet = categorySelections.includes(req.selection.optionId);
-    }
-    if (req.notSelection) {
-      const categorySelections = state.selections[req.notSelection.category] || [];
-      isMet = !categorySelections.includes(req.notSelection.optionId);
-    }
-
-    if (!isMet) {
-      unmet.push(formatRequirement(req));
-    }
-  }
-
-  return unmet;
+  const character = buildCharacter(state);
+  return option.requires.flatMap(req => explainUnmet(req, character));
 }
 
 interface CategorySelectorProps {
@@ -73,7 +79,10 @@ interface CategorySelectorProps {
   state: CharacterBuilderState;
   onToggle: (optionId: string, category: CategoryConfig) => void;
   isOptionAvailable: (option: CharacterOption) => boolean;
+  getOptionConflicts: (option: CharacterOption) => string[]; // Picks (or full exclusivity groups) it clashes with
   isOptionSelected: (optionId: string) => boolean;
+  getToggleBlocker: (option: CharacterOption) => string | null; // Why toggling it is refused (budget, picks needing it)
+  getOptionCost?: (option: CharacterOption) => number; // Set when point-buy is on
 }
 
 // Group options by subcategory
@@ -101,9 +110,31 @@ interface OptionCardProps {
   onEdit: () => void;
   onDelete: () => void;
   unmetRequirements: string[];
+  conflicts: string[];
+  cost?: number; // Point-buy cost (negative = refund)
+  blocker: string | null;
+}
+
+// Point-buy badge text, e.g. "2 pts" or "+1 pt" for a refund
+function formatCost(cost: number): string {
+  const points = Math.abs(cost) === 1 ? 'pt' : 'pts';
+  return cost < 0 ? `+${-cost} ${points}` : `${cost} ${points}`;
 }
 
-function OptionCard({ option, selected, available, canSelect, onToggle, editMode, onEdit, onDelete, unmetRequirements }: OptionCardProps) {
+function OptionCard({
+  option,
+  selected,
+  available,
+  canSelect,
+  onToggle,
+  editMode,
+  onEdit,
+  onDelete,
+  unmetRequirements,
+  conflicts,
+  cost,
+  blocker,
+}: OptionCardProps) {
   const imageUrl = option.image ? getImageUrl(`options/${option.image}`) : null;
 
   const handleClick = () => {
@@ -118,7 +149,7 @@ function OptionCard({ option, selected, available, canSelect, onToggle, editMode
         disabled={!canSelect && !editMode}
         className={`option-card ${selected ? 'selected' : ''} ${
           option.isDrawback ? 'drawback' : ''
-        } ${!available ? 'unavailable' : ''} ${imageUrl ? 'has-image' : ''}`}
+        } ${!available || blocker ? 'unavailable' : ''} ${imageUrl ? 'has-image' : ''}`}
       >
         {selected && <span className="selected-indicator">✓</span>}
         {imageUrl && (
@@ -134,6 +165,11 @@ function OptionCard({ option, selected, available, canSelect, onToggle, editMode
                 {option.fate > 0 ? '+' : ''}{option.fate}
               </span>
             )}
+            {cost !== undefined && cost !== 0 && (
+              <span className={`cost-badge ${cost < 0 ? 'refund' : ''}`} title="Point-buy cost">
+                {formatCost(cost)}
+              </span>
+            )}
           </h3>
           <p className="option-description">{option.description}</p>
 
@@ -166,16 +202,26 @@ function OptionCard({ option, selected, available, canSelect, onToggle, editMode
 
         {!available && !editMode && (
           <div className="unavailable-overlay">
-            <span className="unavailable-label">Locked</span>
-            {unmetRequirements.length > 0 && (
+            <span className="unavailable-label">
+              {unmetRequirements.length === 0 && conflicts.length > 0 ? 'Conflict' : 'Locked'}
+            </span>
+            {unmetRequirements.length + conflicts.length > 0 && (
               <div className="unmet-requirements">
                 {unmetRequirements.map((req, i) => (
                   <span key={i} className="unmet-requirement">{req}</span>
                 ))}
+                {conflicts.map((conflict, i) => (
+                  <span key={`conflict-${i}`} className="unmet-requirement conflict">{conflict}</span>
+                ))}
               </div>
             )}
           </div>
         )}
+        {available && blocker && !editMode && (
+          <div className="unavailable-overlay">
+            <span className="unavailable-label">{blocker}</span>
+          </div>
+        )}
       </button>
 
       {editMode && (
@@ -197,7 +243,10 @@ export function CategorySelector({
   state,
   onToggle,
   isOptionAvailable,
+  getOptionConflicts,
   isOptionSelected,
+  getToggleBlocker,
+  getOptionCost,
 }: CategorySelectorProps) {
   const { editMode, startEditingOption, startCreatingOption, deleteOption } = useEditMode();
   const selectedCount = (state.selections[category.id] || []).length;
@@ -233,8 +282,11 @@ export function CategorySelector({
         const selected = isOptionSelected(option.id);
         // For single-select categories (maxPicks === 1), always allow clicking if available
         // This lets users switch their selection by clicking a different option
-        const canSelect = available && (selected || selectedCount < category.maxPicks || category.maxPicks === 1);
+        const blocker = available ? getToggleBlocker(option) : null;
+        const canSelect = available && !blocker
+          && (selected || selectedCount < category.maxPicks || category.maxPicks === 1);
         const unmetRequirements = available ? [] : getUnmetRequirements(option, state);
+        const conflicts = available ? [] : getOptionConflicts(option);
 
         return (
           <OptionCard
@@ -248,6 +300,9 @@ export function CategorySelector({
             onEdit={() => startEditingOption(option, category.id)}
             onDelete={() => handleDelete(option.id)}
             unmetRequirements={unmetRequirements}
+            conflicts={conflicts}
+            cost={getOptionCost?.(option)}
+            blocker={blocker}
           />
         );
       })}
@@ -7,6 +7,7 @@ import {
   createInitialBuilderState,
   toggleOption,
   isOptionAvailable,
+  getOptionConflicts,
   isOptionSelected,
   isCategoryComplete,
   isCategoryFullyLocked,
@@ -15,6 +16,10 @@ import {
   describeFate,
   describeAttribute,
   updateAppearanceSelections,
+  getOptionCost,
+  getRemainingPoints,
+  getToggleBlocker,
+  getAppearanceChangeBlocker,
 } from '../engine/characterBuilder';
 import { CategorySelector } from './CategorySelector';
 import { CharacterSummary } from './CharacterSummary';
@@ -25,6 +30,7 @@ import { OptionEditorModal } from './OptionEditorModal';
 import { AppearanceEditorModal } from './AppearanceEditorModal';
 import { CategoryEditorModal } from './CategoryEditorModal';
 import OptionImageManager from './OptionImageManager';
+import { ScenarioEditor } from './ScenarioEditor';
 import { EditModeProvider, useEditMode } from '../contexts/EditModeContext';
 
 // Preload an image and return a promise
@@ -50,10 +56,22 @@ async function preloadImages(srcs: string[], concurrency = 4): Promise<void> {
 }
 
 interface CharacterCreatorProps {
-  onComplete: (character: Character) => void;
+  onComplete: (character: Character, state: CharacterBuilderState) => void;
+  initialState?: CharacterBuilderState; // Resume a saved build
+  onStateChange?: (state: CharacterBuilderState) => void; // Called on every change (autosave)
+  onOpenEndings?: () => void;
+  onScenariosRebuilt?: () => void; // The scenario editor recompiled public/scenarios.json
+  onOpenPlaytest?: (character: Character, state: CharacterBuilderState) => void; // Edit Mode playtest launcher
 }
 
-function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
+function CharacterCreatorInner({
+  onComplete,
+  initialState,
+  onStateChange,
+  onOpenEndings,
+  onScenariosRebuilt,
+  onOpenPlaytest,
+}: CharacterCreatorProps) {
   const {
     editMode,
     editorAvailable,
@@ -65,23 +83,35 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
     moveCategoryUp,
     moveCategoryDown,
   } = useEditMode();
-  const [state, setState] = useState<CharacterBuilderState>(createInitialBuilderState);
+  const [state, setState] = useState<CharacterBuilderState>(() => initialState ?? createInitialBuilderState());
   const [currentCategoryIndex, setCurrentCategoryIndex] = useState(0);
   const [showOptionImageManager, setShowOptionImageManager] = useState(false);
+  const [showScenarioEditor, setShowScenarioEditor] = useState(false);
   const [showReview, setShowReview] = useState(false);
+  const [appearanceBlocker, setAppearanceBlocker] = useState<string | null>(null);
+
+  // Report changes so the build survives a refresh
+  // The initial (or resumed) state is already what's saved, so it isn't reported on mount
+  const reportedState = useRef(state);
+  useEffect(() => {
+    if (state === reportedState.current) return;
+    reportedState.current = state;
+    onStateChange?.(state);
+  }, [state, onStateChange]);
 
   // Track which categories have been preloaded
   const preloadedCategories = useRef<Set<number>>(new Set());
   const allImagesPreloaded = useRef(false);
 
   // Use data from context (allows live editing)
-  const allCategories = characterData?.categories ?? initialData.categories;
+  const creationData = characterData ?? initialData;
+  const allCategories = creationData.categories;
 
   // Filter out fully-locked categories (unless in edit mode)
   // This hides categories like Spells when all options require traits the character doesn't have
   const categories = editMode
     ? allCategories
-    : allCategories.filter(cat => !isCategoryFullyLocked(cat, state));
+    : allCategories.filter(cat => !isCategoryFullyLocked(cat, state, creationData));
 
   // Determine character sex and race from selections
   const characterSex = (state.selections.sex?.[0] === 'female' ? 'female' : 'male') as 'male' | 'female';
@@ -89,9 +119,8 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
 
   const handleToggleOption = useCallback((optionId: string, category: CategoryConfig) => {
     // Use the live data from context (all categories for calculation)
-    const data = { categories: allCategories };
-    setState(prev => toggleOption(optionId, category, prev, data));
-  }, [allCategories]);
+    setState(prev => toggleOption(optionId, category, prev, creationData));
+  }, [creationData]);
 
   const handleNameChange = useCallback((name: string) => {
     setState(prev => ({ ...prev, name }));
@@ -106,8 +135,14 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
     : undefined;
 
   const handleAppearanceUpdate = useCallback((selections: AppearanceSelections) => {
-    setState(prev => updateAppearanceSelections(selections, prev, liveAppearanceConfig));
-  }, [liveAppearanceConfig]);
+    // Picks that need the old appearance are dropped, or refuse the change
+    setAppearanceBlocker(getAppearanceChangeBlocker(selections, state, liveAppearanceConfig, creationData));
+    setState(prev => updateAppearanceSelections(selections, prev, liveAppearanceConfig, creationData));
+  }, [state, liveAppearanceConfig, creationData]);
+
+  const handleDismissDropped = () => {
+    setState(prev => ({ ...prev, droppedPicks: [] }));
+  };
 
   const handlePrevCategory = () => {
     if (currentCategoryIndex > 0) {
@@ -122,15 +157,14 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
   };
 
   const handleFinish = () => {
-    const data = { categories: allCategories };
-    if (isCharacterComplete(data, state)) {
+    if (isCharacterComplete(creationData, state)) {
       setShowReview(true);
     }
   };
 
   const handleConfirmAdventure = () => {
     const character = buildCharacter(state);
-    onComplete(character);
+    onComplete(character, state);
   };
 
   const handleBackFromReview = () => {
@@ -149,7 +183,8 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
     : currentCategory
       ? isCategoryComplete(currentCategory, state)
       : false;
-  const canFinish = isCharacterComplete({ categories: allCategories }, state) && state.name.trim().length > 0;
+  const canFinish = isCharacterComplete(creationData, state) && state.name.trim().length > 0;
+  const remainingPoints = getRemainingPoints(state, creationData); // null = point-buy off
 
   // Check if current category is appearance (uses special selector)
   const isAppearanceCategory = currentCategory?.id === 'appearance';
@@ -233,6 +268,11 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
   return (
     <div className="character-creator">
       <header className="creator-header">
+        {onOpenEndings && (
+          <button className="save-menu-btn endings-btn" onClick={onOpenEndings}>
+            Endings Codex
+          </button>
+        )}
         <h1>Create Your Character</h1>
         {editorAvailable && (
           <div className="header-controls">
@@ -246,11 +286,30 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
               {editMode && (
                 <button
                   className={`option-images-btn ${showOptionImageManager ? 'active' : ''}`}
-                  onClick={() => setShowOptionImageManager(!showOptionImageManager)}
+                  onClick={() => {
+                    setShowOptionImageManager(!showOptionImageManager);
+                    setShowScenarioEditor(false);
+                  }}
                 >
                   {showOptionImageManager ? '← Back to Creator' : 'Option Images'}
                 </button>
               )}
+              {editMode && (
+                <button
+                  className={`option-images-btn ${showScenarioEditor ? 'active' : ''}`}
+                  onClick={() => {
+                    setShowScenarioEditor(!showScenarioEditor);
+                    setShowOptionImageManager(false);
+                  }}
+                >
+                  {showScenarioEditor ? '← Back to Creator' : 'Scenarios'}
+                </button>
+              )}
+              {editMode && onOpenPlaytest && (
+                <button className="option-images-btn" onClick={() => onOpenPlaytest(buildCharacter(state), state)}>
+                  Playtest
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -258,6 +317,8 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
 
       {showOptionImageManager && editMode ? (
         <OptionImageManager categories={allCategories} />
+      ) : showScenarioEditor && editMode ? (
+        <ScenarioEditor categories={allCategories} onRebuilt={onScenariosRebuilt} />
       ) : (
         <div className="creator-layout">
           <div className="creator-main">
@@ -324,6 +385,25 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
               </button>
             </nav>
 
+            {(state.droppedPicks ?? []).length > 0 && (
+              <div className="creator-notice">
+                <span>
+                  Removed {state.droppedPicks!.map(pick => pick.name).join(', ')}: requirements no longer met
+                </span>
+                <button className="creator-notice-dismiss" onClick={handleDismissDropped} title="Dismiss">
+                  &times;
+                </button>
+              </div>
+            )}
+            {isAppearanceCategory && appearanceBlocker && (
+              <div className="creator-notice blocked">
+                <span>Can't change that: {appearanceBlocker}</span>
+                <button className="creator-notice-dismiss" onClick={() => setAppearanceBlocker(null)} title="Dismiss">
+                  &times;
+                </button>
+              </div>
+            )}
+
             {isNameTab ? (
               <NameSelector
                 currentName={state.name}
@@ -344,8 +424,11 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
                 category={currentCategory}
                 state={state}
                 onToggle={handleToggleOption}
-                isOptionAvailable={(opt) => isOptionAvailable(opt, currentCategory, state)}
+                isOptionAvailable={(opt) => isOptionAvailable(opt, currentCategory, state, creationData)}
+                getOptionConflicts={(opt) => getOptionConflicts(opt, currentCategory, state, creationData)}
                 isOptionSelected={(optId) => isOptionSelected(optId, currentCategory.id, state)}
+                getToggleBlocker={(opt) => getToggleBlocker(opt.id, currentCategory, state, creationData)}
+                getOptionCost={remainingPoints !== null ? (opt) => getOptionCost(opt, currentCategory) : undefined}
               />
             ) : null}
 
@@ -387,6 +470,8 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
               describeFate={describeFate}
               describeAttribute={describeAttribute}
               portrait={selectedPortrait}
+              pointsRemaining={remainingPoints}
+              pointBudget={creationData.pointBuy?.budget}
             />
           </aside>
         </div>
@@ -399,10 +484,10 @@ function CharacterCreatorInner({ onComplete }: CharacterCreatorProps) {
   );
 }
 
-export function CharacterCreator({ onComplete }: CharacterCreatorProps) {
+export function CharacterCreator(props: CharacterCreatorProps) {
   return (
     <EditModeProvider initialData={initialData} initialAppearanceData={appearanceConfig}>
-      <CharacterCreatorInner onComplete={onComplete} />
+      <CharacterCreatorInner {...props} />
     </EditModeProvider>
   );
 }
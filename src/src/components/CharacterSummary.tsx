@@ -10,6 +10,8 @@ interface CharacterSummaryProps {
   describeFate: (fate: number) => string;
   describeAttribute: (value: number) => string;
   portrait?: Portrait;
+  pointsRemaining?: number | null; // null/undefined = point-buy off
+  pointBudget?: number;
 }
 
 const ATTRIBUTE_NAMES: Record<AttributeId, string> = {
@@ -55,6 +57,8 @@ export function CharacterSummary({
   describeFate,
   describeAttribute,
   portrait,
+  pointsRemaining,
+  pointBudget,
 }: CharacterSummaryProps) {
   const [showLightbox, setShowLightbox] = useState(false);
 
@@ -79,6 +83,15 @@ export function CharacterSummary({
         <p className="fate-description">{getFateDifficultyDescription(fate)}</p>
       </div>
 
+      {pointsRemaining != null && (
+        <div className={`points-section ${pointsRemaining < 0 ? 'over-budget' : ''}`}>
+          <span className="points-label">Points:</span>
+          <span className="points-value">{pointsRemaining}</span>
+          <span className="points-budget">of {pointBudget} left</span>
+          {pointsRemaining < 0 && <p className="points-warning">Over budget: drop a pick to continue</p>}
+        </div>
+      )}
+
       <div className="attributes-section">
         <h3>Attributes</h3>
         <div className="attributes-list">
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import type { CategoryConfig, ConditionExpression, OptionRequirement } from '../types/game';
+import { describeCondition } from '../engine/conditions';
+import { splitRequirement } from '../engine/characterBuilder';
+import { RequirementPicker } from './RequirementPicker';
+
+interface ConditionEditorProps {
+  value: ConditionExpression | undefined;
+  onChange: (value: ConditionExpression | undefined) => void;
+  categories: CategoryConfig[];
+  emptyText: string;
+}
+
+// Picker requirements map onto the matching scenario condition
+function requirementToCondition(req: OptionRequirement): ConditionExpression {
+  const parts = splitRequirement(req).map((part): ConditionExpression => {
+    if (part.trait) return { trait: part.trait };
+    if (part.notTrait) return { trait: part.notTrait, has: false };
+    if (part.attribute) return { attribute: part.attribute.id, op: part.attribute.op, value: part.attribute.value };
+    if (part.selection) return { category: part.selection.category, optionId: part.selection.optionId };
+    if (part.notSelection) {
+      return { category: part.notSelection.category, optionId: part.notSelection.optionId, has: false };
+    }
+    if (part.all) return { all: part.all.map(requirementToCondition) };
+    if (part.any) return { any: part.any.map(requirementToCondition) };
+    return { not: requirementToCondition(part.not!) };
+  });
+  if (parts.length === 0) throw new Error('Empty requirement');
+  return parts.length === 1 ? parts[0] : { all: parts };
+}
+
+// A top-level AND is shown as a list of clauses
+function toClauses(value: ConditionExpression | undefined): ConditionExpression[] {
+  if (!value) return [];
+  return 'all' in value ? value.all : [value];
+}
+
+function fromClauses(clauses: ConditionExpression[]): ConditionExpression | undefined {
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { all: clauses };
+}
+
+/**
+ * Edits a scenario condition as a list of clauses that must all hold
+ * Simple clauses come from the shared requirement picker; anything else
+ * (OR groups, flags, items, variables...) can be written as JSON
+ */
+export function ConditionEditor({ value, onChange, categories, emptyText }: ConditionEditorProps) {
+  const [showPicker, setShowPicker] = useState(false);
+  const [jsonInput, setJsonInput] = useState<string | null>(null); // non-null = editing as JSON
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const clauses = toClauses(value);
+
+  const addClause = (req: OptionRequirement) => {
+    onChange(fromClauses([...clauses, requirementToCondition(req)]));
+    setShowPicker(false);
+  };
+
+  const removeClause = (index: number) => {
+    onChange(fromClauses(clauses.filter((_, i) => i !== index)));
+  };
+
+  const applyJson = () => {
+    if (jsonInput === null) return;
+    try {
+      const parsed = jsonInput.trim() ? JSON.parse(jsonInput) : undefined;
+      if (parsed !== undefined && (typeof parsed !== 'object' || Array.isArray(parsed) || parsed === null)) {
+        throw new Error('A condition must be a JSON object');
+      }
+      onChange(parsed);
+      setJsonInput(null);
+      setJsonError(null);
+    } catch (err) {
+      setJsonError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  if (jsonInput !== null) {
+    return (
+      <div className="condition-editor">
+        {jsonError && <div className="form-error">{jsonError}</div>}
+        <textarea
+          className="json-input"
+          value={jsonInput}
+          onChange={e => setJsonInput(e.target.value)}
+          rows={4}
+          placeholder='{"any": [{"trait": "brave"}, {"attribute": "strength", "op": ">=", "value": 4}]}'
+        />
+        <div className="form-row requirement-actions">
+          <button type="button" className="btn-secondary" onClick={() => { setJsonInput(null); setJsonError(null); }}>
+            Cancel
+          </button>
+          <button type="button" className="btn-primary" onClick={applyJson}>
+            Apply
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="condition-editor">
+      {clauses.length > 0 ? (
+        <ul className="requirements-list">
+          {clauses.map((clause, idx) => (
+            <li key={idx} className="requirement-item">
+              <span>{describeCondition(clause)}</span>
+              <button
+                type="button"
+                className="btn-remove"
+                onClick={() => removeClause(idx)}
+                title="Remove condition"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="no-requirements">{emptyText}</p>
+      )}
+
+      {showPicker ? (
+        <RequirementPicker categories={categories} onAdd={addClause} onCancel={() => setShowPicker(false)} />
+      ) : (
+        <div className="condition-editor-actions">
+          <button type="button" className="btn-add-requirement" onClick={() => setShowPicker(true)}>
+            + Add Condition
+          </button>
+          <button
+            type="button"
+            className="btn-add-requirement"
+            onClick={() => setJsonInput(value ? JSON.stringify(value, null, 2) : '')}
+          >
+            Edit as JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
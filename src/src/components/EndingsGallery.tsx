@@ -0,0 +1,79 @@
+import type { CategoryConfig, Character, EndingsCodex, ScenarioBundle } from '../types/game';
+import { getEndings, getTopTraits } from '../engine/endings';
+import { describeFate } from '../engine/characterBuilder';
+
+interface EndingsGalleryProps {
+  scenarios: ScenarioBundle;
+  codex: EndingsCodex;
+  categories: CategoryConfig[]; // For option names in build summaries
+  onClose: () => void;
+}
+
+// Short description of a build, e.g. "Aldric, Human Soldier"
+function describeBuild(build: Character, categories: CategoryConfig[]): string {
+  const parts: string[] = [];
+  for (const categoryId of ['race', 'avocation']) {
+    const category = categories.find(c => c.id === categoryId);
+    if (!category) continue;
+    const optionId = build.selections[category.id]?.[0];
+    const option = category.options.find(o => o.id === optionId);
+    if (option) parts.push(option.name);
+  }
+  return parts.length > 0 ? `${build.name}, ${parts.join(' ')}` : build.name;
+}
+
+export function EndingsGallery({ scenarios, codex, categories, onClose }: EndingsGalleryProps) {
+  const endings = getEndings(scenarios);
+  const discoveredCount = endings.filter(e => codex[e.id]).length;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content endings-gallery" onClick={e => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2>Endings Codex ({discoveredCount}/{endings.length})</h2>
+          <button className="modal-close" onClick={onClose}>&times;</button>
+        </header>
+
+        <div className="endings-grid">
+          {endings.map(ending => {
+            const record = codex[ending.id];
+            if (!record) {
+              return (
+                <div key={ending.id} className="ending-card undiscovered">
+                  <h3 className="ending-title">???</h3>
+                  <p className="ending-hint">Not yet discovered</p>
+                </div>
+              );
+            }
+
+            const averageFate = Math.round(record.fateTotal / record.runs);
+            return (
+              <div key={ending.id} className="ending-card">
+                <h3 className="ending-title">{ending.endingTitle ?? ending.id}</h3>
+                <div className="ending-stats">
+                  <span>Reached {record.runs} {record.runs === 1 ? 'time' : 'times'}</span>
+                  <span>First by {describeBuild(record.firstBuild, categories)}</span>
+                  <span>
+                    Average fate: {describeFate(averageFate)} ({averageFate >= 0 ? '+' : ''}{averageFate})
+                  </span>
+                  <span className="ending-date">
+                    First reached {new Date(record.firstReachedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {Object.keys(record.traitCounts).length > 0 && (
+                  <div className="traits-list">
+                    {getTopTraits(record).map(({ trait, runs }) => (
+                      <span key={trait} className="trait-tag" title={`${runs} of ${record.runs} runs`}>
+                        {trait}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
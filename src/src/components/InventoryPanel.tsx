@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import type { InventoryItem } from '../types/game';
+
+interface InventoryPanelProps {
+  inventory: InventoryItem[];
+}
+
+export function InventoryPanel({ inventory }: InventoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const itemCount = inventory.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="inventory-panel">
+      <button
+        className={`save-menu-btn inventory-toggle ${open ? 'active' : ''}`}
+        onClick={() => setOpen(!open)}
+      >
+        Inventory ({itemCount})
+      </button>
+
+      {open && (
+        <div className="inventory-dropdown">
+          {inventory.length === 0 ? (
+            <p className="inventory-empty">You carry nothing.</p>
+          ) : (
+            <ul className="inventory-list">
+              {inventory.map(item => (
+                <li key={item.id} className="inventory-item">
+                  <span className="inventory-name">{item.name}</span>
+                  {item.quantity > 1 && <span className="inventory-quantity">×{item.quantity}</span>}
+                  {item.tags.length > 0 && (
+                    <span className="inventory-tags">{item.tags.join(', ')}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,10 @@
-import { useState, useEffect, useMemo } from 'react';
-import type { CharacterOption, AttributeId, OptionRequirement, CategoryId } from '../types/game';
+import { useState, useEffect } from 'react';
+import type { CharacterOption, AttributeId, CategoryId, OptionRef, OptionRequirement } from '../types/game';
 import { useEditMode } from '../contexts/EditModeContext';
+import { RequirementPicker } from './RequirementPicker';
+import { splitRequirement } from '../engine/characterBuilder';
 
 const ATTRIBUTE_IDS: AttributeId[] = ['strength', 'agility', 'endurance', 'cunning', 'charisma', 'will'];
-const OPERATORS: Array<'>=' | '>' | '<=' | '<'> = ['>=', '>', '<=', '<'];
-
-type RequirementType = 'trait' | 'notTrait' | 'attribute' | 'selection' | 'notSelection';
 
 export function OptionEditorModal() {
   const { editingOption, cancelEditing, saveOption, isCreatingNew, characterData } = useEditMode();
@@ -19,43 +18,32 @@ export function OptionEditorModal() {
   const [error, setError] = useState<string | null>(null);
   // Store raw traits input to allow typing commas freely
   const [traitsInput, setTraitsInput] = useState('');
+  const [groupsInput, setGroupsInput] = useState('');
+
+  // Cross-category incompatibility form state
+  const [crossCategory, setCrossCategory] = useState<CategoryId | ''>('');
+  const [crossOptionId, setCrossOptionId] = useState('');
 
   // Requirements form state
   const [showAddRequirement, setShowAddRequirement] = useState(false);
-  const [newReqType, setNewReqType] = useState<RequirementType>('trait');
-  const [newReqTrait, setNewReqTrait] = useState('');
-  const [newReqAttrId, setNewReqAttrId] = useState<AttributeId>('strength');
-  const [newReqAttrOp, setNewReqAttrOp] = useState<'>=' | '>' | '<=' | '<'>('>=');
-  const [newReqAttrValue, setNewReqAttrValue] = useState(1);
-  const [newReqCategory, setNewReqCategory] = useState<CategoryId | ''>('');
-  const [newReqOptionId, setNewReqOptionId] = useState('');
+  const [requiresJson, setRequiresJson] = useState<string | null>(null); // non-null = editing as JSON
+  const [requiresJsonError, setRequiresJsonError] = useState<string | null>(null);
 
   // Reset form when editing option changes
   useEffect(() => {
     if (editingOption) {
       setFormData({ ...editingOption.option });
       setTraitsInput(editingOption.option.traits?.join(', ') ?? '');
+      setGroupsInput(editingOption.option.exclusiveGroups?.join(', ') ?? '');
+      setCrossCategory('');
+      setCrossOptionId('');
       setError(null);
       setShowAddRequirement(false);
+      setRequiresJson(null);
+      setRequiresJsonError(null);
     }
   }, [editingOption]);
 
-  // Collect all unique traits from all options
-  const allTraits = useMemo(() => {
-    if (!characterData) return [];
-    const traits = new Set<string>();
-    for (const cat of characterData.categories) {
-      for (const opt of cat.options) {
-        if (opt.traits) {
-          for (const t of opt.traits) {
-            traits.add(t);
-          }
-        }
-      }
-    }
-    return [...traits].sort();
-  }, [characterData]);
-
   if (!editingOption) return null;
 
   // Get existing subcategories for this category
@@ -69,62 +57,58 @@ export function OptionEditorModal() {
     ? category.options.filter(o => o.id !== formData.id)
     : [];
 
-  // Format a requirement for display
+  // Format a requirement for display; fields and groups that are all set must all hold
   const formatRequirement = (req: OptionRequirement): string => {
-    if (req.trait) return `Has trait: ${req.trait}`;
-    if (req.notTrait) return `NOT trait: ${req.notTrait}`;
-    if (req.attribute) {
-      const attrName = req.attribute.id.charAt(0).toUpperCase() + req.attribute.id.slice(1);
-      return `${attrName} ${req.attribute.op} ${req.attribute.value}`;
-    }
-    if (req.selection) {
-      const cat = characterData?.categories.find(c => c.id === req.selection!.category);
-      const opt = cat?.options.find(o => o.id === req.selection!.optionId);
-      return `Selected: ${opt?.name ?? req.selection.optionId} (${cat?.name ?? req.selection.category})`;
-    }
-    if (req.notSelection) {
-      const cat = characterData?.categories.find(c => c.id === req.notSelection!.category);
-      const opt = cat?.options.find(o => o.id === req.notSelection!.optionId);
-      return `NOT selected: ${opt?.name ?? req.notSelection.optionId} (${cat?.name ?? req.notSelection.category})`;
-    }
-    return 'Unknown requirement';
+    const formatNested = (r: OptionRequirement) =>
+      r.all || r.any || splitRequirement(r).length > 1 ? `(${formatRequirement(r)})` : formatRequirement(r);
+
+    return splitRequirement(req).map(part => {
+      if (part.trait) return `Has trait: ${part.trait}`;
+      if (part.notTrait) return `NOT trait: ${part.notTrait}`;
+      if (part.attribute) {
+        const attrName = part.attribute.id.charAt(0).toUpperCase() + part.attribute.id.slice(1);
+        return `${attrName} ${part.attribute.op} ${part.attribute.value}`;
+      }
+      if (part.selection) {
+        const cat = characterData?.categories.find(c => c.id === part.selection!.category);
+        const opt = cat?.options.find(o => o.id === part.selection!.optionId);
+        return `Selected: ${opt?.name ?? part.selection.optionId} (${cat?.name ?? part.selection.category})`;
+      }
+      if (part.notSelection) {
+        const cat = characterData?.categories.find(c => c.id === part.notSelection!.category);
+        const opt = cat?.options.find(o => o.id === part.notSelection!.optionId);
+        return `NOT selected: ${opt?.name ?? part.notSelection.optionId} (${cat?.name ?? part.notSelection.category})`;
+      }
+      if (part.all) return part.all.map(formatNested).join(' AND ');
+      if (part.any) return part.any.map(formatNested).join(' OR ');
+      if (part.not) return `NOT ${formatNested(part.not)}`;
+      return 'Unknown requirement';
+    }).join(' AND ') || 'Unknown requirement';
   };
 
-  // Add a new requirement
-  const addRequirement = () => {
-    let newReq: OptionRequirement;
-
-    switch (newReqType) {
-      case 'trait':
-        if (!newReqTrait.trim()) return;
-        newReq = { trait: newReqTrait.trim() };
-        break;
-      case 'notTrait':
-        if (!newReqTrait.trim()) return;
-        newReq = { notTrait: newReqTrait.trim() };
-        break;
-      case 'attribute':
-        newReq = { attribute: { id: newReqAttrId, op: newReqAttrOp, value: newReqAttrValue } };
-        break;
-      case 'selection':
-        if (!newReqCategory || !newReqOptionId) return;
-        newReq = { selection: { category: newReqCategory as CategoryId, optionId: newReqOptionId } };
-        break;
-      case 'notSelection':
-        if (!newReqCategory || !newReqOptionId) return;
-        newReq = { notSelection: { category: newReqCategory as CategoryId, optionId: newReqOptionId } };
-        break;
+  // Apply prerequisites written as JSON (for any/all/not groups the picker can't build)
+  const applyRequiresJson = () => {
+    if (requiresJson === null) return;
+    try {
+      const parsed = requiresJson.trim() ? JSON.parse(requiresJson) : [];
+      if (!Array.isArray(parsed) || parsed.some(r => typeof r !== 'object' || r === null || Array.isArray(r))) {
+        throw new Error('Prerequisites must be a JSON array of requirement objects');
+      }
+      setFormData(prev => ({ ...prev, requires: parsed }));
+      setRequiresJson(null);
+      setRequiresJsonError(null);
+    } catch (err) {
+      setRequiresJsonError(err instanceof Error ? err.message : 'Invalid JSON');
     }
+  };
 
+  // Add a requirement built with the picker
+  const addRequirement = (newReq: OptionRequirement) => {
     setFormData(prev => ({
       ...prev,
       requires: [...(prev.requires ?? []), newReq],
     }));
-
-    // Reset form
     setShowAddRequirement(false);
-    setNewReqTrait('');
-    setNewReqOptionId('');
   };
 
   // Remove a requirement by index
@@ -135,6 +119,36 @@ export function OptionEditorModal() {
     }));
   };
 
+  // Incompatibilities with options in other categories
+  const crossIncompatibilities = (formData.incompatibleWith ?? []).filter(
+    (ref): ref is OptionRef => typeof ref !== 'string'
+  );
+
+  const formatOptionRef = (ref: OptionRef): string => {
+    const cat = characterData?.categories.find(c => c.id === ref.category);
+    const opt = cat?.options.find(o => o.id === ref.optionId);
+    return `${opt?.name ?? ref.optionId} (${cat?.name ?? ref.category})`;
+  };
+
+  const addCrossIncompatible = () => {
+    if (!crossCategory || !crossOptionId) return;
+    const exists = crossIncompatibilities.some(ref => ref.category === crossCategory && ref.optionId === crossOptionId);
+    if (!exists) {
+      setFormData(prev => ({
+        ...prev,
+        incompatibleWith: [...(prev.incompatibleWith ?? []), { category: crossCategory, optionId: crossOptionId }],
+      }));
+    }
+    setCrossOptionId('');
+  };
+
+  const removeCrossIncompatible = (ref: OptionRef) => {
+    setFormData(prev => ({
+      ...prev,
+      incompatibleWith: prev.incompatibleWith?.filter(r => r !== ref),
+    }));
+  };
+
   // Toggle an option in incompatibleWith
   const toggleIncompatible = (optionId: string) => {
     setFormData(prev => {
@@ -198,9 +212,17 @@ export function OptionEditorModal() {
       if (formData.incompatibleWith && formData.incompatibleWith.length > 0) {
         cleanedOption.incompatibleWith = formData.incompatibleWith;
       }
+      const exclusiveGroups = formData.exclusiveGroups?.filter(g => g.trim());
+      if (exclusiveGroups && exclusiveGroups.length > 0) {
+        cleanedOption.exclusiveGroups = exclusiveGroups;
+      }
       if (formData.isDrawback) {
         cleanedOption.isDrawback = true;
       }
+      // Not editable here yet; keep whatever the JSON defines
+      if (formData.items && formData.items.length > 0) {
+        cleanedOption.items = formData.items;
+      }
 
       await saveOption(cleanedOption);
     } catch (err) {
@@ -231,6 +253,15 @@ export function OptionEditorModal() {
     }));
   };
 
+  const updateGroupsInput = (value: string) => {
+    setGroupsInput(value);
+    const groups = value.split(',').map(g => g.trim());
+    setFormData(prev => ({
+      ...prev,
+      exclusiveGroups: groups.some(g => g) ? groups : undefined,
+    }));
+  };
+
   return (
     <div className="modal-overlay" onClick={cancelEditing}>
       <div className="modal-content option-editor" onClick={e => e.stopPropagation()}>
@@ -360,7 +391,30 @@ export function OptionEditorModal() {
           {/* Prerequisites Section */}
           <div className="form-group">
             <label>Prerequisites</label>
-            {formData.requires && formData.requires.length > 0 ? (
+            {requiresJson !== null ? (
+              <div className="condition-editor">
+                {requiresJsonError && <div className="form-error">{requiresJsonError}</div>}
+                <textarea
+                  className="json-input"
+                  value={requiresJson}
+                  onChange={e => setRequiresJson(e.target.value)}
+                  rows={5}
+                  placeholder='[{"attribute": {"id": "strength", "op": ">=", "value": 2}}, {"any": [{"trait": "warrior"}, {"trait": "brawler"}]}]'
+                />
+                <div className="form-row requirement-actions">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => { setRequiresJson(null); setRequiresJsonError(null); }}
+                  >
+                    Cancel
+                  </button>
+                  <button type="button" className="btn-primary" onClick={applyRequiresJson}>
+                    Apply
+                  </button>
+                </div>
+              </div>
+            ) : formData.requires && formData.requires.length > 0 ? (
               <ul className="requirements-list">
                 {formData.requires.map((req, idx) => (
                   <li key={idx} className="requirement-item">
@@ -380,122 +434,29 @@ export function OptionEditorModal() {
               <p className="no-requirements">No prerequisites</p>
             )}
 
-            {!showAddRequirement ? (
-              <button
-                type="button"
-                className="btn-add-requirement"
-                onClick={() => setShowAddRequirement(true)}
-              >
-                + Add Prerequisite
-              </button>
-            ) : (
-              <div className="add-requirement-form">
-                <div className="form-row">
-                  <select
-                    value={newReqType}
-                    onChange={e => {
-                      setNewReqType(e.target.value as RequirementType);
-                      setNewReqTrait('');
-                      setNewReqOptionId('');
-                    }}
-                  >
-                    <option value="trait">Has Trait</option>
-                    <option value="notTrait">NOT Trait</option>
-                    <option value="attribute">Attribute Check</option>
-                    <option value="selection">Has Selection</option>
-                    <option value="notSelection">NOT Selection</option>
-                  </select>
-                </div>
-
-                {/* Trait input */}
-                {(newReqType === 'trait' || newReqType === 'notTrait') && (
-                  <div className="form-row">
-                    <input
-                      type="text"
-                      value={newReqTrait}
-                      onChange={e => setNewReqTrait(e.target.value)}
-                      placeholder="trait-name"
-                      list="all-traits-list"
-                    />
-                    <datalist id="all-traits-list">
-                      {allTraits.map(t => (
-                        <option key={t} value={t} />
-                      ))}
-                    </datalist>
-                  </div>
-                )}
-
-                {/* Attribute input */}
-                {newReqType === 'attribute' && (
-                  <div className="form-row attribute-requirement">
-                    <select
-                      value={newReqAttrId}
-                      onChange={e => setNewReqAttrId(e.target.value as AttributeId)}
-                    >
-                      {ATTRIBUTE_IDS.map(attr => (
-                        <option key={attr} value={attr}>
-                          {attr.charAt(0).toUpperCase() + attr.slice(1)}
-                        </option>
-                      ))}
-                    </select>
-                    <select
-                      value={newReqAttrOp}
-                      onChange={e => setNewReqAttrOp(e.target.value as '>=' | '>' | '<=' | '<')}
-                    >
-                      {OPERATORS.map(op => (
-                        <option key={op} value={op}>{op}</option>
-                      ))}
-                    </select>
-                    <input
-                      type="number"
-                      value={newReqAttrValue}
-                      onChange={e => setNewReqAttrValue(parseInt(e.target.value) || 0)}
-                      min={-10}
-                      max={10}
-                    />
-                  </div>
-                )}
-
-                {/* Selection input */}
-                {(newReqType === 'selection' || newReqType === 'notSelection') && (
-                  <div className="form-row selection-requirement">
-                    <select
-                      value={newReqCategory}
-                      onChange={e => {
-                        setNewReqCategory(e.target.value as CategoryId);
-                        setNewReqOptionId('');
-                      }}
-                    >
-                      <option value="">Select category...</option>
-                      {characterData?.categories.map(cat => (
-                        <option key={cat.id} value={cat.id}>{cat.name}</option>
-                      ))}
-                    </select>
-                    {newReqCategory && (
-                      <select
-                        value={newReqOptionId}
-                        onChange={e => setNewReqOptionId(e.target.value)}
-                      >
-                        <option value="">Select option...</option>
-                        {characterData?.categories
-                          .find(c => c.id === newReqCategory)
-                          ?.options.map(opt => (
-                            <option key={opt.id} value={opt.id}>{opt.name}</option>
-                          ))}
-                      </select>
-                    )}
-                  </div>
-                )}
-
-                <div className="form-row requirement-actions">
-                  <button type="button" className="btn-secondary" onClick={() => setShowAddRequirement(false)}>
-                    Cancel
-                  </button>
-                  <button type="button" className="btn-primary" onClick={addRequirement}>
-                    Add
-                  </button>
-                </div>
+            {requiresJson !== null ? null : !showAddRequirement ? (
+              <div className="condition-editor-actions">
+                <button
+                  type="button"
+                  className="btn-add-requirement"
+                  onClick={() => setShowAddRequirement(true)}
+                >
+                  + Add Prerequisite
+                </button>
+                <button
+                  type="button"
+                  className="btn-add-requirement"
+                  onClick={() => setRequiresJson(JSON.stringify(formData.requires ?? [], null, 2))}
+                >
+                  Edit as JSON
+                </button>
               </div>
+            ) : (
+              <RequirementPicker
+                categories={characterData?.categories ?? []}
+                onAdd={addRequirement}
+                onCancel={() => setShowAddRequirement(false)}
+              />
             )}
           </div>
 
@@ -518,6 +479,82 @@ export function OptionEditorModal() {
             </div>
           )}
 
+          <div className="form-group">
+            <label>Incompatible With (other categories)</label>
+            {crossIncompatibilities.length > 0 ? (
+              <ul className="requirements-list">
+                {crossIncompatibilities.map(ref => (
+                  <li key={`${ref.category}:${ref.optionId}`} className="requirement-item">
+                    <span>{formatOptionRef(ref)}</span>
+                    <button
+                      type="button"
+                      className="btn-remove"
+                      onClick={() => removeCrossIncompatible(ref)}
+                      title="Remove incompatibility"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="no-requirements">None</p>
+            )}
+            <div className="form-row selection-requirement">
+              <select
+                value={crossCategory}
+                onChange={e => {
+                  setCrossCategory(e.target.value as CategoryId);
+                  setCrossOptionId('');
+                }}
+              >
+                <option value="">Select category...</option>
+                {characterData?.categories
+                  .filter(c => c.id !== editingOption.categoryId)
+                  .map(cat => (
+                    <option key={cat.id} value={cat.id}>{cat.name}</option>
+                  ))}
+              </select>
+              {crossCategory && (
+                <select value={crossOptionId} onChange={e => setCrossOptionId(e.target.value)}>
+                  <option value="">Select option...</option>
+                  {characterData?.categories
+                    .find(c => c.id === crossCategory)
+                    ?.options.map(opt => (
+                      <option key={opt.id} value={opt.id}>{opt.name}</option>
+                    ))}
+                </select>
+              )}
+              <button
+                type="button"
+                className="btn-add-requirement"
+                onClick={addCrossIncompatible}
+                disabled={!crossCategory || !crossOptionId}
+              >
+                + Add
+              </button>
+            </div>
+            <span className="field-hint">Only one of the two options needs to list the other</span>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="option-exclusive-groups">Exclusivity groups (comma-separated)</label>
+            <input
+              id="option-exclusive-groups"
+              type="text"
+              value={groupsInput}
+              onChange={e => updateGroupsInput(e.target.value)}
+              placeholder="divine-patron"
+              list="exclusive-groups-list"
+            />
+            <datalist id="exclusive-groups-list">
+              {(characterData?.exclusiveGroups ?? []).map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </datalist>
+            <span className="field-hint">Name groups and their limits in exclusiveGroups in characterCreation.json</span>
+          </div>
+
           <footer className="modal-footer">
             <button type="button" className="btn-secondary" onClick={cancelEditing}>
               Cancel
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import type {
+  Character,
+  InventoryItem,
+  SaveData,
+  ScenarioBundle,
+  VariableDeclarations,
+  WorldVariables,
+} from '../types/game';
+import { playtestPresets } from '../data/playtestPresets';
+import { characterCreationData } from '../data/characterCreation';
+import { buildCharacter } from '../engine/characterBuilder';
+import { seedInventory } from '../engine/inventory';
+import { getDefaultVariables } from '../engine/gameState';
+import { describeSlot, summarizeSave } from '../engine/saves';
+
+const ATTRIBUTE_IDS = ['strength', 'agility', 'endurance', 'cunning', 'charisma', 'will'];
+const CURRENT_SOURCE = 'current';
+
+interface PlaytestLauncherProps {
+  scenarios: ScenarioBundle;
+  declarations: VariableDeclarations;
+  saves: SaveData[];
+  character: Character; // The build being edited, or the character of the run in progress
+  scenarioId?: string; // Preselected scenario (e.g. the current one when jumping mid-run)
+  variables?: WorldVariables; // Starting world state, defaults to the declared values
+  onStart: (character: Character, scenarioId: string, variables: WorldVariables) => void;
+  onClose: () => void;
+}
+
+// The character a save would play as: its run's runtime character, or its unfinished build
+function getSaveCharacter(save: SaveData): Character {
+  return save.gameState?.character ?? seedInventory(buildCharacter(save.builderState), characterCreationData.categories);
+}
+
+// Comma-separated list <-> array
+function splitList(value: string): string[] {
+  return value.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Edit Mode launcher: start a playtest run at any scenario as a preset,
+ * a saved character or the current build, optionally tweaked first
+ * Playtest runs aren't autosaved and don't count towards the endings codex
+ */
+export function PlaytestLauncher({
+  scenarios,
+  declarations,
+  saves,
+  character,
+  scenarioId,
+  variables,
+  onStart,
+  onClose,
+}: PlaytestLauncherProps) {
+  const scenarioIds = Object.keys(scenarios).sort();
+  const defaultScenarioId = scenarioId ?? scenarioIds.find(id => scenarios[id].isStart) ?? scenarioIds[0] ?? '';
+
+  const [source, setSource] = useState(CURRENT_SOURCE);
+  const [draft, setDraft] = useState<Character>(character);
+  const [inventoryInput, setInventoryInput] = useState(JSON.stringify(character.inventory ?? [], null, 2));
+  const [draftVariables, setDraftVariables] = useState<WorldVariables>(variables ?? getDefaultVariables(declarations));
+  const [targetId, setTargetId] = useState(defaultScenarioId);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCharacter = (loaded: Character) => {
+    setDraft(loaded);
+    setInventoryInput(JSON.stringify(loaded.inventory ?? [], null, 2));
+    setError(null);
+  };
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    if (value === CURRENT_SOURCE) {
+      loadCharacter(character);
+    } else if (value.startsWith('preset:')) {
+      const preset = playtestPresets.find(p => `preset:${p.id}` === value);
+      if (preset) loadCharacter(preset.character);
+    } else if (value.startsWith('save:')) {
+      const save = saves.find(s => `save:${s.slotId}` === value);
+      if (save) {
+        loadCharacter(getSaveCharacter(save));
+        if (save.gameState) setDraftVariables(save.gameState.variables);
+      }
+    }
+  };
+
+  const handleStart = () => {
+    if (!scenarios[targetId]) {
+      setError(`Unknown scenario: ${targetId}`);
+      return;
+    }
+
+    let inventory: InventoryItem[];
+    try {
+      inventory = inventoryInput.trim() ? JSON.parse(inventoryInput) : [];
+      if (!Array.isArray(inventory)) throw new Error('Inventory must be a JSON array');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid inventory JSON');
+      return;
+    }
+
+    onStart({ ...draft, inventory }, targetId, draftVariables);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content playtest-launcher" onClick={e => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2>Playtest</h2>
+          <button className="modal-close" onClick={onClose}>&times;</button>
+        </header>
+
+        <div className="option-editor-form">
+          {error && <div className="form-error">{error}</div>}
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="playtest-source">Character</label>
+              <select id="playtest-source" value={source} onChange={e => handleSourceChange(e.target.value)}>
+                <option value={CURRENT_SOURCE}>Current character</option>
+                <optgroup label="Presets">
+                  {playtestPresets.map(preset => (
+                    <option key={preset.id} value={`preset:${preset.id}`}>{preset.name}</option>
+                  ))}
+                </optgroup>
+                {saves.length > 0 && (
+                  <optgroup label="Saves">
+                    {saves.map(save => (
+                      <option key={save.slotId} value={`save:${save.slotId}`}>
+                        {describeSlot(save.slotId)}: {summarizeSave(save)}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="playtest-scenario">Start at</label>
+              <select id="playtest-scenario" value={targetId} onChange={e => setTargetId(e.target.value)}>
+                {scenarioIds.map(id => (
+                  <option key={id} value={id}>
+                    {id}{scenarios[id].isStart ? ' (start)' : ''}{scenarios[id].isEnding ? ' (ending)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {source.startsWith('preset:') && (
+            <p className="playtest-preset-description">
+              {playtestPresets.find(p => `preset:${p.id}` === source)?.description}
+            </p>
+          )}
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="playtest-name">Name</label>
+              <input
+                id="playtest-name"
+                type="text"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="form-group small">
+              <label htmlFor="playtest-fate">Fate</label>
+              <input
+                id="playtest-fate"
+                type="number"
+                value={draft.fate}
+                onChange={e => setDraft({ ...draft, fate: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Attributes</label>
+            <div className="attributes-grid">
+              {ATTRIBUTE_IDS.map(attr => (
+                <div key={attr} className="attribute-input">
+                  <span className="attr-label">{attr.slice(0, 3).toUpperCase()}</span>
+                  <input
+                    type="number"
+                    value={draft.attributes[attr] ?? 0}
+                    onChange={e =>
+                      setDraft({ ...draft, attributes: { ...draft.attributes, [attr]: parseInt(e.target.value) || 0 } })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="playtest-traits">Traits (comma-separated)</label>
+            <input
+              id="playtest-traits"
+              type="text"
+              value={draft.traits.join(', ')}
+              onChange={e => setDraft({ ...draft, traits: splitList(e.target.value) })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="playtest-flags">Story flags (comma-separated)</label>
+            <input
+              id="playtest-flags"
+              type="text"
+              value={(draft.flags ?? []).join(', ')}
+              onChange={e => setDraft({ ...draft, flags: splitList(e.target.value) })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="playtest-inventory">Inventory (JSON)</label>
+            <textarea
+              id="playtest-inventory"
+              className="json-input"
+              rows={4}
+              value={inventoryInput}
+              onChange={e => setInventoryInput(e.target.value)}
+              placeholder='[{"id": "coin", "name": "Coin", "quantity": 10, "tags": ["currency"]}]'
+            />
+          </div>
+
+          {Object.keys(declarations).length > 0 && (
+            <div className="form-group">
+              <label>World variables</label>
+              <div className="playtest-variables">
+                {Object.entries(declarations).map(([name, decl]) => (
+                  <label key={name} className="playtest-variable" title={decl.description}>
+                    <span>{name}</span>
+                    {decl.type === 'boolean' ? (
+                      <input
+                        type="checkbox"
+                        checked={draftVariables[name] === true}
+                        onChange={e => setDraftVariables({ ...draftVariables, [name]: e.target.checked })}
+                      />
+                    ) : (
+                      <input
+                        type={decl.type === 'number' ? 'number' : 'text'}
+                        value={String(draftVariables[name] ?? decl.default)}
+                        onChange={e =>
+                          setDraftVariables({
+                            ...draftVariables,
+                            [name]: decl.type === 'number' ? parseFloat(e.target.value) || 0 : e.target.value,
+                          })
+                        }
+                      />
+                    )}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <footer className="modal-footer">
+          <button type="button" className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className="btn-primary" onClick={handleStart} disabled={!targetId}>
+            Play from {targetId || '…'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useMemo } from 'react';
+import type { AttributeId, ComparisonOp, OptionRequirement, CategoryConfig, CategoryId } from '../types/game';
+
+const ATTRIBUTE_IDS: AttributeId[] = ['strength', 'agility', 'endurance', 'cunning', 'charisma', 'will'];
+const OPERATORS: ComparisonOp[] = ['>=', '>', '<=', '<', '==', '!='];
+
+type RequirementType = 'trait' | 'notTrait' | 'attribute' | 'selection' | 'notSelection';
+
+interface RequirementPickerProps {
+  categories: CategoryConfig[];
+  onAdd: (requirement: OptionRequirement) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Form for building one trait, attribute or selection requirement
+ * Shared by the option editor (prerequisites) and the scenario editor (conditions)
+ */
+export function RequirementPicker({ categories, onAdd, onCancel }: RequirementPickerProps) {
+  const [newReqType, setNewReqType] = useState<RequirementType>('trait');
+  const [newReqTrait, setNewReqTrait] = useState('');
+  const [newReqAttrId, setNewReqAttrId] = useState<AttributeId>('strength');
+  const [newReqAttrOp, setNewReqAttrOp] = useState<ComparisonOp>('>=');
+  const [newReqAttrValue, setNewReqAttrValue] = useState(1);
+  const [newReqCategory, setNewReqCategory] = useState<CategoryId | ''>('');
+  const [newReqOptionId, setNewReqOptionId] = useState('');
+
+  // Collect all unique traits from all options
+  const allTraits = useMemo(() => {
+    const traits = new Set<string>();
+    for (const cat of categories) {
+      for (const opt of cat.options) {
+        if (opt.traits) {
+          for (const t of opt.traits) {
+            traits.add(t);
+          }
+        }
+      }
+    }
+    return [...traits].sort();
+  }, [categories]);
+
+  // Add a new requirement
+  const addRequirement = () => {
+    let newReq: OptionRequirement;
+
+    switch (newReqType) {
+      case 'trait':
+        if (!newReqTrait.trim()) return;
+        newReq = { trait: newReqTrait.trim() };
+        break;
+      case 'notTrait':
+        if (!newReqTrait.trim()) return;
+        newReq = { notTrait: newReqTrait.trim() };
+        break;
+      case 'attribute':
+        newReq = { attribute: { id: newReqAttrId, op: newReqAttrOp, value: newReqAttrValue } };
+        break;
+      case 'selection':
+        if (!newReqCategory || !newReqOptionId) return;
+        newReq = { selection: { category: newReqCategory as CategoryId, optionId: newReqOptionId } };
+        break;
+      case 'notSelection':
+        if (!newReqCategory || !newReqOptionId) return;
+        newReq = { notSelection: { category: newReqCategory as CategoryId, optionId: newReqOptionId } };
+        break;
+    }
+
+    onAdd(newReq);
+
+    // Reset form
+    setNewReqTrait('');
+    setNewReqOptionId('');
+  };
+
+  return (
+    <div className="add-requirement-form">
+      <div className="form-row">
+        <select
+          value={newReqType}
+          onChange={e => {
+            setNewReqType(e.target.value as RequirementType);
+            setNewReqTrait('');
+            setNewReqOptionId('');
+          }}
+        >
+          <option value="trait">Has Trait</option>
+          <option value="notTrait">NOT Trait</option>
+          <option value="attribute">Attribute Check</option>
+          <option value="selection">Has Selection</option>
+          <option value="notSelection">NOT Selection</option>
+        </select>
+      </div>
+
+      {/* Trait input */}
+      {(newReqType === 'trait' || newReqType === 'notTrait') && (
+        <div className="form-row">
+          <input
+            type="text"
+            value={newReqTrait}
+            onChange={e => setNewReqTrait(e.target.value)}
+            placeholder="trait-name"
+            list="all-traits-list"
+          />
+          <datalist id="all-traits-list">
+            {allTraits.map(t => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+        </div>
+      )}
+
+      {/* Attribute input */}
+      {newReqType === 'attribute' && (
+        <div className="form-row attribute-requirement">
+          <select
+            value={newReqAttrId}
+            onChange={e => setNewReqAttrId(e.target.value as AttributeId)}
+          >
+            {ATTRIBUTE_IDS.map(attr => (
+              <option key={attr} value={attr}>
+                {attr.charAt(0).toUpperCase() + attr.slice(1)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={newReqAttrOp}
+            onChange={e => setNewReqAttrOp(e.target.value as ComparisonOp)}
+          >
+            {OPERATORS.map(op => (
+              <option key={op} value={op}>{op}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={newReqAttrValue}
+            onChange={e => setNewReqAttrValue(parseInt(e.target.value) || 0)}
+            min={-10}
+            max={10}
+          />
+        </div>
+      )}
+
+      {/* Selection input */}
+      {(newReqType === 'selection' || newReqType === 'notSelection') && (
+        <div className="form-row selection-requirement">
+          <select
+            value={newReqCategory}
+            onChange={e => {
+              setNewReqCategory(e.target.value as CategoryId);
+              setNewReqOptionId('');
+            }}
+          >
+            <option value="">Select category...</option>
+            {categories.map(cat => (
+              <option key={cat.id} value={cat.id}>{cat.name}</option>
+            ))}
+          </select>
+          {newReqCategory && (
+            <select
+              value={newReqOptionId}
+              onChange={e => setNewReqOptionId(e.target.value)}
+            >
+              <option value="">Select option...</option>
+              {categories
+                .find(c => c.id === newReqCategory)
+                ?.options.map(opt => (
+                  <option key={opt.id} value={opt.id}>{opt.name}</option>
+                ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      <div className="form-row requirement-actions">
+        <button type="button" className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="button" className="btn-primary" onClick={addRequirement}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
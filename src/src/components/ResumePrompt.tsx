@@ -0,0 +1,47 @@
+import type { SaveData } from '../types/game';
+import { describeSlot, summarizeSave } from '../engine/saves';
+
+interface ResumePromptProps {
+  saves: SaveData[];
+  onResume: (save: SaveData) => void;
+  onDelete: (slotId: string) => void;
+  onNewCharacter: () => void;
+}
+
+export function ResumePrompt({ saves, onResume, onDelete, onNewCharacter }: ResumePromptProps) {
+  return (
+    <div className="resume-prompt">
+      <h1>Welcome Back</h1>
+      <p className="resume-subtitle">Pick up where you left off, or begin anew.</p>
+
+      <div className="save-list">
+        {saves.map(save => (
+          <div key={save.slotId} className="save-row">
+            <div className="save-info">
+              <span className="save-slot-name">{describeSlot(save.slotId)}</span>
+              <span className="save-summary">{summarizeSave(save)}</span>
+              <span className="save-date">{new Date(save.savedAt).toLocaleString()}</span>
+            </div>
+            <div className="save-actions">
+              <button className="save-action-btn primary" onClick={() => onResume(save)}>
+                Resume
+              </button>
+              <button
+                className="save-action-btn danger"
+                onClick={() => {
+                  if (confirm(`Delete ${describeSlot(save.slotId)}?`)) onDelete(save.slotId);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button className="restart-button" onClick={onNewCharacter}>
+        New Character
+      </button>
+    </div>
+  );
+}
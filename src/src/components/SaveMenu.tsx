@@ -0,0 +1,64 @@
+import type { SaveData } from '../types/game';
+import { MANUAL_SAVE_SLOTS, describeSlot, summarizeSave } from '../engine/saves';
+
+interface SaveMenuProps {
+  saves: SaveData[]; // Existing saves (any slot)
+  onSave: (slotId: string) => void;
+  onLoad: (save: SaveData) => void;
+  onDelete: (slotId: string) => void;
+  onClose: () => void;
+}
+
+export function SaveMenu({ saves, onSave, onLoad, onDelete, onClose }: SaveMenuProps) {
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content save-menu" onClick={e => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2>Save Slots</h2>
+          <button className="modal-close" onClick={onClose}>&times;</button>
+        </header>
+
+        <div className="save-list">
+          {MANUAL_SAVE_SLOTS.map(slotId => {
+            const save = saves.find(s => s.slotId === slotId);
+            return (
+              <div key={slotId} className={`save-row ${save ? '' : 'empty'}`}>
+                <div className="save-info">
+                  <span className="save-slot-name">{describeSlot(slotId)}</span>
+                  {save ? (
+                    <>
+                      <span className="save-summary">{summarizeSave(save)}</span>
+                      <span className="save-date">{new Date(save.savedAt).toLocaleString()}</span>
+                    </>
+                  ) : (
+                    <span className="save-summary">Empty</span>
+                  )}
+                </div>
+                <div className="save-actions">
+                  <button
+                    className="save-action-btn primary"
+                    onClick={() => {
+                      if (!save || confirm(`Overwrite ${describeSlot(slotId)}?`)) onSave(slotId);
+                    }}
+                  >
+                    Save
+                  </button>
+                  {save && (
+                    <>
+                      <button className="save-action-btn" onClick={() => onLoad(save)}>
+                        Load
+                      </button>
+                      <button className="save-action-btn danger" onClick={() => onDelete(slotId)}>
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
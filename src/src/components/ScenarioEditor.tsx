@@ -0,0 +1,622 @@
+import { useState, useEffect, useCallback } from 'react';
+import ReactMarkdown from 'react-markdown';
+import {
+  fetchScenarios,
+  createScenario,
+  saveScenario,
+  deleteScenario,
+  rebuildScenarios,
+  fetchScenarioLayout,
+  saveScenarioLayout,
+  type ScenarioBuildResult,
+  type ScenarioLayout,
+} from '../api/editorApi';
+import type { CategoryConfig, Choice, Outcome, Scenario, StartConfig } from '../types/game';
+import { ConditionEditor } from './ConditionEditor';
+import { ScenarioGraph, type OutcomePort } from './ScenarioGraph';
+
+interface ScenarioEditorProps {
+  categories: CategoryConfig[];
+  onRebuilt?: () => void; // public/scenarios.json was recompiled
+}
+
+const NEW_SCENARIO: Scenario = {
+  id: '',
+  content: '# New Scenario\n\nDescribe what happens here.\n',
+  choices: [],
+};
+
+const NEW_CHOICE: Choice = {
+  text: '',
+  outcomes: [{ condition: 'default', next: '' }],
+};
+
+const DEFAULT_START_CONFIG: StartConfig = { minFate: null, maxFate: null, chance: 100 };
+
+interface JsonFieldProps {
+  label: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  placeholder?: string;
+}
+
+/**
+ * Textarea for the parts of a scenario without a dedicated form (effects,
+ * checks, named conditions); applied when it loses focus and parses
+ */
+function JsonField({ label, value, onChange, placeholder }: JsonFieldProps) {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)));
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    try {
+      onChange(text.trim() ? JSON.parse(text) : undefined);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="form-group">
+      <label>{label}</label>
+      <textarea
+        className={`json-input ${error ? 'invalid' : ''}`}
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onBlur={apply}
+        rows={Math.min(8, Math.max(2, text.split('\n').length))}
+        placeholder={placeholder}
+      />
+      {error && <span className="json-error">{error}</span>}
+    </div>
+  );
+}
+
+/**
+ * Edit Mode page for scenario folders: list, markdown editor with preview,
+ * a choice/outcome builder and a node-graph view. Every save rebuilds
+ * public/scenarios.json.
+ */
+export function ScenarioEditor({ categories, onRebuilt }: ScenarioEditorProps) {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [draft, setDraft] = useState<Scenario | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [build, setBuild] = useState<ScenarioBuildResult | null>(null);
+  const [view, setView] = useState<'form' | 'graph'>('form');
+  const [layout, setLayout] = useState<ScenarioLayout>({});
+  // Bumped to reset uncontrolled JSON fields when a different draft is loaded
+  const [draftVersion, setDraftVersion] = useState(0);
+
+  const loadScenarios = useCallback(async () => {
+    try {
+      setScenarios(await fetchScenarios());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scenarios');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadScenarios();
+    fetchScenarioLayout()
+      .then(setLayout)
+      .catch(err => console.error('Failed to load scenario layout:', err));
+  }, [loadScenarios]);
+
+  const openDraft = (scenario: Scenario, creating: boolean) => {
+    if (dirty && !confirm('Discard unsaved changes?')) return;
+    setDraft(structuredClone(scenario));
+    setIsNew(creating);
+    setDirty(false);
+    setError(null);
+    setDraftVersion(v => v + 1);
+    setView('form');
+  };
+
+  // The graph saves straight to disk, so it can't sit alongside unsaved form edits
+  const showGraph = () => {
+    if (dirty && !confirm('Discard unsaved changes?')) return;
+    setDraft(null);
+    setDirty(false);
+    setError(null);
+    setView('graph');
+  };
+
+  const updateDraft = (changes: Partial<Scenario>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setDirty(true);
+  };
+
+  const updateChoice = (index: number, changes: Partial<Choice>) => {
+    if (!draft) return;
+    updateDraft({ choices: draft.choices.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  const updateOutcome = (choiceIndex: number, outcomeIndex: number, changes: Partial<Outcome>) => {
+    if (!draft) return;
+    const outcomes = draft.choices[choiceIndex].outcomes.map((o, i) => (i === outcomeIndex ? { ...o, ...changes } : o));
+    updateChoice(choiceIndex, { outcomes });
+  };
+
+  const moveChoice = (index: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const choices = [...draft.choices];
+    [choices[index], choices[index + direction]] = [choices[index + direction], choices[index]];
+    updateDraft({ choices });
+    setDraftVersion(v => v + 1);
+  };
+
+  const removeChoice = (index: number) => {
+    if (!draft) return;
+    updateDraft({ choices: draft.choices.filter((_, i) => i !== index) });
+    setDraftVersion(v => v + 1);
+  };
+
+  const removeOutcome = (choiceIndex: number, outcomeIndex: number) => {
+    if (!draft) return;
+    updateChoice(choiceIndex, { outcomes: draft.choices[choiceIndex].outcomes.filter((_, i) => i !== outcomeIndex) });
+    setDraftVersion(v => v + 1);
+  };
+
+  // Show the build result and pick up the new bundle
+  const afterBuild = async (result: ScenarioBuildResult) => {
+    setBuild(result);
+    await loadScenarios();
+    onRebuilt?.();
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setError(null);
+    setSaving(true);
+
+    try {
+      if (!draft.id.trim()) {
+        throw new Error('ID is required');
+      }
+
+      // Drop empty optional fields so config.json stays tidy
+      const cleaned: Scenario = { ...draft, id: draft.id.trim() };
+      if (!cleaned.isStart) {
+        delete cleaned.isStart;
+        delete cleaned.startConfig;
+      }
+      if (!cleaned.isEnding) {
+        delete cleaned.isEnding;
+        delete cleaned.endingTitle;
+      }
+
+      const result = isNew ? await createScenario(cleaned) : await saveScenario(cleaned);
+      setDraft(cleaned);
+      setIsNew(false);
+      setDirty(false);
+      await afterBuild(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft || isNew) return;
+    if (!confirm(`Delete scenario "${draft.id}"? Choices leading here will fail the build.`)) return;
+
+    setSaving(true);
+    try {
+      const result = await deleteScenario(draft.id);
+      setDraft(null);
+      setDirty(false);
+      await afterBuild(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    setSaving(true);
+    try {
+      await afterBuild(await rebuildScenarios());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLayoutChange = (updated: ScenarioLayout) => {
+    setLayout(updated);
+    saveScenarioLayout(updated).catch(err => setError(err instanceof Error ? err.message : 'Failed to save layout'));
+  };
+
+  // Point an outcome (or its check's failure) at another scenario
+  const connectOutcome = async (port: OutcomePort, targetId: string, sources: Scenario[]) => {
+    const source = sources.find(s => s.id === port.scenarioId);
+    if (!source) return;
+
+    const updated = structuredClone(source);
+    const outcome = updated.choices[port.choiceIndex].outcomes[port.outcomeIndex];
+    if (port.target === 'failure' && outcome.check) {
+      outcome.check.failure = targetId;
+    } else {
+      outcome.next = targetId;
+    }
+    await afterBuild(await saveScenario(updated));
+  };
+
+  const handleConnect = async (port: OutcomePort, targetId: string) => {
+    setError(null);
+    try {
+      await connectOutcome(port, targetId, scenarios);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect');
+    }
+  };
+
+  // Create an empty scenario at a spot on the graph, optionally linking an outcome to it
+  const handleCreateNode = async (position: { x: number; y: number }, from?: OutcomePort) => {
+    const id = prompt('New scenario ID (lowercase letters, numbers and dashes)')?.trim();
+    if (!id) return;
+    if (scenarios.some(s => s.id === id)) {
+      setError(`Scenario ${id} already exists`);
+      return;
+    }
+
+    setError(null);
+    try {
+      const created: Scenario = { ...structuredClone(NEW_SCENARIO), id };
+      const result = await createScenario(created);
+      handleLayoutChange({ ...layout, [id]: position });
+      if (from) {
+        // Saving the link rebuilds again, picking up the new node too
+        await connectOutcome(from, id, scenarios);
+      } else {
+        await afterBuild(result);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create scenario');
+    }
+  };
+
+  const scenarioIds = scenarios.map(s => s.id);
+  const problemCount = build ? build.errors.length + build.issues.length : 0;
+
+  return (
+    <div className="scenario-editor">
+      <div className="scenario-editor-layout">
+        {/* Left: scenario list and build status */}
+        <div className="scenario-editor-left">
+          <div className="selection-bar">
+            <button className="btn-primary" onClick={() => openDraft(NEW_SCENARIO, true)}>
+              + New Scenario
+            </button>
+            <button className="btn-secondary" onClick={handleRebuild} disabled={saving}>
+              Rebuild
+            </button>
+            <button
+              className={`option-images-btn ${view === 'graph' ? 'active' : ''}`}
+              onClick={() => (view === 'graph' ? setView('form') : showGraph())}
+            >
+              Graph
+            </button>
+          </div>
+
+          <ul className="scenario-list">
+            {scenarios.map(s => (
+              <li key={s.id}>
+                <button
+                  className={`scenario-list-item ${draft?.id === s.id && !isNew ? 'active' : ''}`}
+                  onClick={() => openDraft(s, false)}
+                >
+                  <span className="scenario-list-id">{s.id}</span>
+                  {s.isStart && <span className="scenario-badge start">start</span>}
+                  {s.isEnding && <span className="scenario-badge ending">ending</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {build && (
+            <div className={`scenario-build-status ${problemCount > 0 ? 'has-problems' : 'ok'}`}>
+              <strong>{problemCount > 0 ? `Build found ${problemCount} problem(s)` : '✓ Build OK'}</strong>
+              <ul>
+                {build.errors.map(e => <li key={e} className="build-error">{e}</li>)}
+                {build.issues.map(issue => (
+                  <li key={issue.message} className="build-issue">
+                    <button
+                      className="link-btn"
+                      onClick={() => {
+                        const target = scenarios.find(s => s.id === issue.scenario);
+                        if (target) openDraft(target, false);
+                      }}
+                    >
+                      {issue.message}
+                    </button>
+                  </li>
+                ))}
+                {build.warnings.map(w => <li key={w} className="build-warning">{w}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Right: the selected scenario */}
+        <div className="scenario-editor-right">
+          {view === 'graph' ? (
+            <>
+              {error && <div className="form-error">{error}</div>}
+              <ScenarioGraph
+                scenarios={scenarios}
+                layout={layout}
+                onLayoutChange={handleLayoutChange}
+                onConnect={handleConnect}
+                onCreateNode={handleCreateNode}
+                onOpen={id => {
+                  const target = scenarios.find(s => s.id === id);
+                  if (target) openDraft(target, false);
+                }}
+              />
+            </>
+          ) : !draft ? (
+            <p className="no-requirements">Select a scenario to edit, or create a new one.</p>
+          ) : (
+            <div className="option-editor-form" key={draftVersion}>
+              {error && <div className="form-error">{error}</div>}
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="scenario-id">ID</label>
+                  <input
+                    id="scenario-id"
+                    type="text"
+                    value={draft.id}
+                    onChange={e => updateDraft({ id: e.target.value })}
+                    placeholder="scenario-id"
+                    disabled={!isNew}
+                  />
+                </div>
+                <div className="form-group checkbox">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={draft.isStart ?? false}
+                      onChange={e => updateDraft({
+                        isStart: e.target.checked || undefined,
+                        startConfig: e.target.checked ? draft.startConfig ?? DEFAULT_START_CONFIG : undefined,
+                      })}
+                    />
+                    Start
+                  </label>
+                </div>
+                <div className="form-group checkbox">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={draft.isEnding ?? false}
+                      onChange={e => updateDraft({ isEnding: e.target.checked || undefined })}
+                    />
+                    Ending
+                  </label>
+                </div>
+              </div>
+
+              {draft.isStart && draft.startConfig && (
+                <div className="form-row">
+                  <div className="form-group small">
+                    <label>Chance (1-100)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={draft.startConfig.chance}
+                      onChange={e => updateDraft({
+                        startConfig: { ...draft.startConfig!, chance: parseInt(e.target.value) || 0 },
+                      })}
+                    />
+                  </div>
+                  <div className="form-group small">
+                    <label>Min Fate</label>
+                    <input
+                      type="number"
+                      value={draft.startConfig.minFate ?? ''}
+                      onChange={e => updateDraft({
+                        startConfig: { ...draft.startConfig!, minFate: e.target.value === '' ? null : parseInt(e.target.value) },
+                      })}
+                    />
+                  </div>
+                  <div className="form-group small">
+                    <label>Max Fate</label>
+                    <input
+                      type="number"
+                      value={draft.startConfig.maxFate ?? ''}
+                      onChange={e => updateDraft({
+                        startConfig: { ...draft.startConfig!, maxFate: e.target.value === '' ? null : parseInt(e.target.value) },
+                      })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {draft.isEnding && (
+                <div className="form-group">
+                  <label htmlFor="scenario-ending-title">Ending Title</label>
+                  <input
+                    id="scenario-ending-title"
+                    type="text"
+                    value={draft.endingTitle ?? ''}
+                    onChange={e => updateDraft({ endingTitle: e.target.value || undefined })}
+                    placeholder="The Wanderer"
+                  />
+                </div>
+              )}
+
+              {/* Markdown with live preview */}
+              <div className="form-group">
+                <label>Content (markdown; template tags like {'{{name}}'} show as written in the preview)</label>
+                <div className="scenario-content-editor">
+                  <textarea
+                    value={draft.content}
+                    onChange={e => updateDraft({ content: e.target.value })}
+                    rows={14}
+                  />
+                  <div className="scenario-content scenario-preview">
+                    <ReactMarkdown>{draft.content}</ReactMarkdown>
+                  </div>
+                </div>
+              </div>
+
+              <JsonField
+                label="Named conditions for {{#if name}} blocks (JSON)"
+                value={draft.conditions}
+                onChange={value => updateDraft({ conditions: value as Scenario['conditions'] })}
+                placeholder='{"short-folk": {"any": [{"category": "race", "optionId": "halfling"}]}}'
+              />
+              <JsonField
+                label="On enter effects (JSON)"
+                value={draft.onEnter}
+                onChange={value => updateDraft({ onEnter: value as Scenario['onEnter'] })}
+                placeholder='{"setFlags": ["visited-tavern"]}'
+              />
+
+              {/* Choice / outcome builder */}
+              <div className="form-group">
+                <label>Choices</label>
+                {draft.choices.length === 0 && (
+                  <p className="no-requirements">{draft.isEnding ? 'Endings have no choices.' : 'No choices yet'}</p>
+                )}
+
+                {draft.choices.map((choice, ci) => (
+                  <div key={ci} className="choice-editor">
+                    <div className="form-row">
+                      <input
+                        type="text"
+                        className="choice-text-input"
+                        value={choice.text}
+                        onChange={e => updateChoice(ci, { text: e.target.value })}
+                        placeholder="What the player can do"
+                      />
+                      <button type="button" className="cat-move-btn" onClick={() => moveChoice(ci, -1)} disabled={ci === 0} title="Move up">
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="cat-move-btn"
+                        onClick={() => moveChoice(ci, 1)}
+                        disabled={ci === draft.choices.length - 1}
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button type="button" className="btn-remove" onClick={() => removeChoice(ci)} title="Remove choice">
+                        ×
+                      </button>
+                    </div>
+
+                    <div className="choice-availability">
+                      <span className="choice-section-label">Shown when</span>
+                      <ConditionEditor
+                        value={choice.available?.requires}
+                        onChange={requires => updateChoice(ci, {
+                          available: requires || choice.available?.chance !== undefined
+                            ? { ...choice.available, requires }
+                            : undefined,
+                        })}
+                        categories={categories}
+                        emptyText="Always shown"
+                      />
+                      <label className="choice-chance">
+                        Chance %
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={choice.available?.chance !== undefined ? Math.round(choice.available.chance * 100) : ''}
+                          onChange={e => {
+                            const chance = e.target.value === '' ? undefined : Number(e.target.value) / 100;
+                            updateChoice(ci, {
+                              available: chance !== undefined || choice.available?.requires
+                                ? { ...choice.available, chance }
+                                : undefined,
+                            });
+                          }}
+                          placeholder="100"
+                        />
+                      </label>
+                    </div>
+
+                    <span className="choice-section-label">Outcomes (first match wins)</span>
+                    {choice.outcomes.map((outcome, oi) => (
+                      <div key={oi} className="outcome-editor">
+                        <div className="form-row">
+                          <select
+                            value={outcome.next}
+                            onChange={e => updateOutcome(ci, oi, { next: e.target.value })}
+                          >
+                            <option value="">Go to...</option>
+                            {scenarioIds.map(id => <option key={id} value={id}>{id}</option>)}
+                          </select>
+                          <button type="button" className="btn-remove" onClick={() => removeOutcome(ci, oi)} title="Remove outcome">
+                            ×
+                          </button>
+                        </div>
+                        <ConditionEditor
+                          value={outcome.condition === 'default' ? undefined : outcome.condition}
+                          onChange={condition => updateOutcome(ci, oi, { condition: condition ?? 'default' })}
+                          categories={categories}
+                          emptyText="Default (always matches)"
+                        />
+                        <JsonField
+                          label="Skill check (JSON)"
+                          value={outcome.check}
+                          onChange={value => updateOutcome(ci, oi, { check: value as Outcome['check'] })}
+                          placeholder='{"dice": "2d6", "attribute": "strength", "difficulty": 9, "failure": "fight-lose"}'
+                        />
+                        <JsonField
+                          label="Effects (JSON)"
+                          value={outcome.effects}
+                          onChange={value => updateOutcome(ci, oi, { effects: value as Outcome['effects'] })}
+                          placeholder='{"addTraits": ["scarred"], "fate": -1}'
+                        />
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className="btn-add-requirement"
+                      onClick={() => updateChoice(ci, { outcomes: [...choice.outcomes, { condition: 'default', next: '' }] })}
+                    >
+                      + Add Outcome
+                    </button>
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  className="btn-add-requirement"
+                  onClick={() => updateDraft({ choices: [...draft.choices, structuredClone(NEW_CHOICE)] })}
+                >
+                  + Add Choice
+                </button>
+              </div>
+
+              <footer className="modal-footer">
+                {!isNew && (
+                  <button type="button" className="btn-delete" onClick={handleDelete} disabled={saving}>
+                    Delete
+                  </button>
+                )}
+                <button type="button" className="btn-primary" onClick={handleSave} disabled={saving || !dirty}>
+                  {saving ? 'Saving...' : 'Save & Rebuild'}
+                </button>
+              </footer>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState, useRef, useMemo } from 'react';
+import type { Scenario } from '../types/game';
+import type { ScenarioLayout } from '../api/editorApi';
+import { describeCondition } from '../engine/conditions';
+
+// Where a dragged edge starts: an outcome's next, or its skill check's failure
+export interface OutcomePort {
+  scenarioId: string;
+  choiceIndex: number;
+  outcomeIndex: number;
+  target: 'next' | 'failure';
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface NodeRow {
+  label: string;
+  title: string;
+  port: OutcomePort;
+  next: string;
+  gated: boolean;
+  failure: boolean;
+}
+
+type Drag =
+  | { type: 'node'; id: string; offsetX: number; offsetY: number }
+  | { type: 'edge'; from: OutcomePort; start: Point; end: Point };
+
+interface ScenarioGraphProps {
+  scenarios: Scenario[];
+  layout: ScenarioLayout;
+  onLayoutChange: (layout: ScenarioLayout) => void;
+  onConnect: (port: OutcomePort, targetId: string) => void;
+  onCreateNode: (position: Point, from?: OutcomePort) => void; // from = dropped an edge on empty space
+  onOpen: (scenarioId: string) => void;
+}
+
+// Node geometry; edges are drawn from these, so they must match the CSS
+const NODE_WIDTH = 220;
+const HEADER_HEIGHT = 34;
+const ROW_HEIGHT = 24;
+const NODE_PADDING = 8;
+const COLUMN_GAP = 300;
+const NODE_GAP = 40;
+const CANVAS_MARGIN = 400;
+
+// One row (and port) per outcome, plus one per skill check failure
+function getRows(scenario: Scenario): NodeRow[] {
+  const rows: NodeRow[] = [];
+
+  scenario.choices.forEach((choice, choiceIndex) => {
+    const gated = choice.available?.requires !== undefined || choice.available?.chance !== undefined;
+    choice.outcomes.forEach((outcome, outcomeIndex) => {
+      const port = { scenarioId: scenario.id, choiceIndex, outcomeIndex };
+      const condition = outcome.condition === 'default' ? '' : ` [${describeCondition(outcome.condition)}]`;
+      rows.push({
+        label: choice.text || '(no text)',
+        title: `${choice.text}${condition}`,
+        port: { ...port, target: 'next' },
+        next: outcome.next,
+        gated,
+        failure: false,
+      });
+      if (outcome.check) {
+        rows.push({
+          label: `↳ ${outcome.check.attribute} check fails`,
+          title: `${outcome.check.dice} + ${outcome.check.attribute} vs ${outcome.check.difficulty} fails`,
+          port: { ...port, target: 'failure' },
+          next: outcome.check.failure,
+          gated,
+          failure: true,
+        });
+      }
+    });
+  });
+
+  return rows;
+}
+
+function getNodeHeight(rowCount: number): number {
+  return HEADER_HEIGHT + Math.max(1, rowCount) * ROW_HEIGHT + NODE_PADDING;
+}
+
+/**
+ * Place nodes in columns by distance from a start node
+ * Used for nodes the layout file doesn't have a position for yet
+ */
+function autoLayout(scenarios: Scenario[]): ScenarioLayout {
+  const byId = new Map(scenarios.map(s => [s.id, s]));
+  const depth = new Map<string, number>();
+  const queue = scenarios.filter(s => s.isStart).map(s => s.id);
+  queue.forEach(id => depth.set(id, 0));
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const row of getRows(byId.get(id)!)) {
+      if (byId.has(row.next) && !depth.has(row.next)) {
+        depth.set(row.next, depth.get(id)! + 1);
+        queue.push(row.next);
+      }
+    }
+  }
+
+  // Unreachable nodes go in a column of their own
+  const lastColumn = Math.max(-1, ...depth.values()) + 1;
+  const columnHeights: number[] = [];
+  const layout: ScenarioLayout = {};
+
+  for (const scenario of scenarios) {
+    const column = depth.get(scenario.id) ?? lastColumn;
+    const y = columnHeights[column] ?? NODE_GAP;
+    layout[scenario.id] = { x: NODE_GAP + column * COLUMN_GAP, y };
+    columnHeights[column] = y + getNodeHeight(getRows(scenario).length) + NODE_GAP;
+  }
+
+  return layout;
+}
+
+// Bezier from an outcome port to the left edge of its target
+function edgePath(from: Point, to: Point): string {
+  const bend = Math.max(60, Math.abs(to.x - from.x) / 2);
+  return `M ${from.x} ${from.y} C ${from.x + bend} ${from.y}, ${to.x - bend} ${to.y}, ${to.x} ${to.y}`;
+}
+
+/**
+ * Node-graph view of the scenarios: drag nodes to arrange them, drag an
+ * outcome's port onto a node to point it there, or onto empty space (or
+ * double-click it) to create a node in place
+ */
+export function ScenarioGraph({ scenarios, layout, onLayoutChange, onConnect, onCreateNode, onOpen }: ScenarioGraphProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [moved, setMoved] = useState<ScenarioLayout>({}); // Positions changed by an unfinished drag
+
+  const auto = useMemo(() => autoLayout(scenarios), [scenarios]);
+  const positions: ScenarioLayout = { ...auto, ...layout, ...moved };
+
+  const nodes = scenarios.map(scenario => {
+    const rows = getRows(scenario);
+    return { scenario, rows, position: positions[scenario.id], height: getNodeHeight(rows.length) };
+  });
+
+  const canvasWidth = Math.max(0, ...nodes.map(n => n.position.x + NODE_WIDTH)) + CANVAS_MARGIN;
+  const canvasHeight = Math.max(0, ...nodes.map(n => n.position.y + n.height)) + CANVAS_MARGIN;
+
+  const toCanvas = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const portPosition = (position: Point, rowIndex: number): Point => ({
+    x: position.x + NODE_WIDTH,
+    y: position.y + HEADER_HEIGHT + rowIndex * ROW_HEIGHT + ROW_HEIGHT / 2,
+  });
+
+  const targetPosition = (position: Point): Point => ({ x: position.x, y: position.y + HEADER_HEIGHT / 2 });
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toCanvas(e);
+    if (drag.type === 'node') {
+      const x = Math.max(0, point.x - drag.offsetX);
+      const y = Math.max(0, point.y - drag.offsetY);
+      setMoved(prev => ({ ...prev, [drag.id]: { x, y } }));
+    } else {
+      setDrag({ ...drag, end: point });
+    }
+  };
+
+  // Dropped on empty space (drops on a node are handled by the node)
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (drag?.type === 'node') {
+      // Only dragged nodes are saved; the rest keep following the auto layout
+      if (Object.keys(moved).length > 0) {
+        onLayoutChange({ ...layout, ...moved });
+      }
+      setMoved({});
+    } else if (drag?.type === 'edge') {
+      onCreateNode(toCanvas(e), drag.from);
+    }
+    setDrag(null);
+  };
+
+  const handleNodePointerUp = (e: React.PointerEvent, scenarioId: string) => {
+    if (drag?.type !== 'edge') return;
+    e.stopPropagation();
+    onConnect(drag.from, scenarioId);
+    setDrag(null);
+  };
+
+  return (
+    <div className="scenario-graph">
+      <p className="scenario-graph-hint">
+        Drag nodes to arrange · drag a ● onto a node to connect · drop it on empty space or
+        double-click the canvas to create a node · double-click a node to edit it
+      </p>
+      <div className="scenario-graph-viewport">
+        <div
+          ref={canvasRef}
+          className="scenario-graph-canvas"
+          style={{ width: canvasWidth, height: canvasHeight }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => { setDrag(null); setMoved({}); }}
+          onDoubleClick={e => {
+            if (e.target === canvasRef.current) onCreateNode(toCanvas(e));
+          }}
+        >
+          <svg className="scenario-graph-edges" width={canvasWidth} height={canvasHeight}>
+            <defs>
+              <marker id="graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#7a9aba" />
+              </marker>
+            </defs>
+            {nodes.flatMap(({ scenario, rows, position }) =>
+              rows.map((row, i) => {
+                const target = positions[row.next];
+                if (!target) return null;
+                return (
+                  <path
+                    key={`${scenario.id}-${i}`}
+                    className={`graph-edge ${row.gated ? 'gated' : ''} ${row.failure ? 'failure' : ''}`}
+                    d={edgePath(portPosition(position, i), targetPosition(target))}
+                    markerEnd="url(#graph-arrow)"
+                  />
+                );
+              })
+            )}
+            {drag?.type === 'edge' && (
+              <path className="graph-edge dragging" d={edgePath(drag.start, drag.end)} />
+            )}
+          </svg>
+
+          {nodes.map(({ scenario, rows, position, height }) => (
+            <div
+              key={scenario.id}
+              className={`graph-node ${scenario.isStart ? 'start' : ''} ${scenario.isEnding ? 'ending' : ''}`}
+              style={{ left: position.x, top: position.y, width: NODE_WIDTH, height }}
+              onPointerUp={e => handleNodePointerUp(e, scenario.id)}
+              onDoubleClick={e => { e.stopPropagation(); onOpen(scenario.id); }}
+            >
+              <div
+                className="graph-node-header"
+                style={{ height: HEADER_HEIGHT }}
+                onPointerDown={e => {
+                  const point = toCanvas(e);
+                  setDrag({ type: 'node', id: scenario.id, offsetX: point.x - position.x, offsetY: point.y - position.y });
+                }}
+                title={scenario.endingTitle ?? scenario.id}
+              >
+                {scenario.id}
+              </div>
+              {rows.length === 0 && (
+                <div className="graph-node-row empty" style={{ height: ROW_HEIGHT }}>
+                  {scenario.isEnding ? scenario.endingTitle ?? 'Ending' : 'No choices'}
+                </div>
+              )}
+              {rows.map((row, i) => (
+                <div key={i} className={`graph-node-row ${row.failure ? 'failure' : ''}`} style={{ height: ROW_HEIGHT }} title={row.title}>
+                  <span className="graph-node-row-label">{row.label}</span>
+                  <span
+                    className={`graph-port ${row.next ? 'connected' : ''}`}
+                    onPointerDown={e => {
+                      e.stopPropagation();
+                      const start = portPosition(position, i);
+                      setDrag({ type: 'edge', from: row.port, start, end: start });
+                    }}
+                  >
+                    ●
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import type { Character, CheckTier, Scenario, WorldVariables } from '../types/game';
+import type { ConditionTrace } from '../engine/conditions';
+import { inspectChoices } from '../engine/inspector';
+
+interface ScenarioInspectorProps {
+  scenario: Scenario;
+  character: Character;
+  variables: WorldVariables;
+  visitSeed: number;
+  onClose: () => void;
+}
+
+const TIER_LABELS: Record<CheckTier, string> = {
+  criticalSuccess: 'crit',
+  success: 'success',
+  failure: 'fail',
+  criticalFailure: 'crit fail',
+};
+
+const GROUP_LABELS: Record<NonNullable<ConditionTrace['group']>, string> = {
+  all: 'all of',
+  any: 'any of',
+  not: 'not',
+};
+
+function formatPercent(p: number): string {
+  return `${Math.round(p * 100)}%`;
+}
+
+// One condition and, for groups, each of its clauses
+function TraceView({ trace }: { trace: ConditionTrace }) {
+  return (
+    <li className={`inspector-trace ${trace.passed ? 'passed' : 'failed'}`}>
+      <span className="inspector-mark">{trace.passed ? '✓' : '✗'}</span>
+      {trace.group ? GROUP_LABELS[trace.group] : trace.description}
+      {trace.actual !== undefined && <span className="inspector-actual"> (is {trace.actual})</span>}
+      {trace.children && (
+        <ul>
+          {trace.children.map((child, i) => <TraceView key={i} trace={child} />)}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Playtest side panel: why each choice of the current visit is shown or
+ * hidden, and which outcome it would resolve to
+ */
+export function ScenarioInspector({ scenario, character, variables, visitSeed, onClose }: ScenarioInspectorProps) {
+  const inspections = useMemo(
+    () => inspectChoices(scenario, character, variables, visitSeed),
+    [scenario, character, variables, visitSeed]
+  );
+
+  return (
+    <aside className="scenario-inspector">
+      <header className="inspector-header">
+        <h3>Inspector: {scenario.id}</h3>
+        <button className="modal-close" onClick={onClose}>&times;</button>
+      </header>
+
+      <div className="inspector-state">
+        <div>Fate {character.fate} · {Object.entries(character.attributes).map(([a, v]) => `${a.slice(0, 3)} ${v}`).join(' · ')}</div>
+        <div>Traits: {character.traits.join(', ') || 'none'}</div>
+        <div>Flags: {(character.flags ?? []).join(', ') || 'none'}</div>
+        {Object.keys(variables).length > 0 && (
+          <div>Variables: {Object.entries(variables).map(([k, v]) => `${k} = ${JSON.stringify(v)}`).join(', ')}</div>
+        )}
+      </div>
+
+      {inspections.length === 0 && <p className="inspector-empty">This scenario has no choices.</p>}
+
+      <ol className="inspector-choices">
+        {inspections.map((inspection, index) => (
+          <li key={index} className={`inspector-choice ${inspection.available ? 'shown' : 'hidden'}`}>
+            <div className="inspector-choice-title">
+              <span className="inspector-badge">{inspection.available ? 'shown' : 'hidden'}</span>
+              {inspection.choice.text}
+            </div>
+
+            {inspection.chance && (
+              <div className={`inspector-trace ${inspection.chance.passed ? 'passed' : 'failed'}`}>
+                <span className="inspector-mark">{inspection.chance.passed ? '✓' : '✗'}</span>
+                chance {formatPercent(inspection.chance.chance)} (rolled {inspection.chance.roll.toFixed(2)})
+              </div>
+            )}
+            {inspection.requires && (
+              <ul className="inspector-requires">
+                <TraceView trace={inspection.requires} />
+              </ul>
+            )}
+
+            <ol className="inspector-outcomes">
+              {inspection.outcomes.map((outcome, i) => (
+                <li key={i} className={i === inspection.pickedOutcome ? 'picked' : ''}>
+                  <span className="inspector-next">
+                    {i === inspection.pickedOutcome ? '→ ' : ''}{outcome.next}
+                  </span>
+                  {outcome.condition ? (
+                    <ul>
+                      <TraceView trace={outcome.condition} />
+                    </ul>
+                  ) : (
+                    <span className="inspector-actual"> default</span>
+                  )}
+                  {outcome.checkOdds && (
+                    <div className="inspector-actual">
+                      {(Object.keys(TIER_LABELS) as CheckTier[])
+                        .map(tier => `${TIER_LABELS[tier]} ${formatPercent(outcome.checkOdds![tier])}`)
+                        .join(' · ')}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+            {inspection.pickedOutcome === null && (
+              <div className="inspector-trace failed">No outcome matches: this choice would get stuck</div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+}
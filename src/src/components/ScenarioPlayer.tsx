@@ -1,55 +1,198 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import type { Scenario, Character, Choice } from '../types/game';
-import { getAvailableChoices, resolveOutcome } from '../engine/conditions';
+import type { Scenario, Character, Choice, Outcome, WorldVariables } from '../types/game';
+import { getAvailableChoices, findOutcome } from '../engine/conditions';
+import { hasCheck, resolveCheck, type CheckResult } from '../engine/checks';
+import { createRng, deriveSeed } from '../engine/random';
+import { describeAttribute } from '../engine/characterBuilder';
+import { chooseWithPolicy, getDecisionPolicy, type AutoplaySettings } from '../engine/autoplay';
+import { renderTemplate } from '../engine/templates';
+import { characterCreationData } from '../data/characterCreation';
+import { AutoplayControls } from './AutoplayControls';
 
 interface ScenarioPlayerProps {
   scenario: Scenario;
   character: Character;
-  onChoice: (nextScenarioId: string) => void;
+  variables: WorldVariables;
+  visitSeed: number; // Seeds chance gates for this visit
+  exploredChoices: number[]; // Choice indices already taken from this scenario (any run branch)
+  onChoice: (outcome: Outcome, choiceIndex: number) => void;
   onRestart: () => void;
+  onOpenTimeline: () => void;
+  onOpenEndings: () => void;
+  autoplay: AutoplaySettings;
+  onAutoplayChange: (settings: AutoplaySettings) => void;
 }
 
-export function ScenarioPlayer({ scenario, character, onChoice, onRestart }: ScenarioPlayerProps) {
-  const [availableChoices, setAvailableChoices] = useState<Choice[]>([]);
+// A rolled check waiting for the player to continue
+interface PendingCheck {
+  outcome: Outcome;
+  choiceIndex: number;
+  attribute: string;
+  result: CheckResult;
+}
 
-  useEffect(() => {
-    // Recalculate available choices when scenario changes
-    // Note: random availability is evaluated once per scenario load
-    const choices = getAvailableChoices(scenario.choices, character);
-    setAvailableChoices(choices);
-  }, [scenario, character]);
-
-  const handleChoice = (choice: Choice) => {
-    const nextId = resolveOutcome(choice.outcomes, character);
-    if (nextId) {
-      onChoice(nextId);
+const TIER_LABELS: Record<CheckResult['tier'], string> = {
+  criticalSuccess: 'Critical Success!',
+  success: 'Success',
+  failure: 'Failure',
+  criticalFailure: 'Critical Failure!',
+};
+
+interface CheckResultPanelProps {
+  check: PendingCheck;
+  onContinue: () => void;
+}
+
+function CheckResultPanel({ check, onContinue }: CheckResultPanelProps) {
+  const { result, attribute } = check;
+  const attrName = attribute.charAt(0).toUpperCase() + attribute.slice(1);
+  const { count, sides, modifier } = result.dice;
+
+  return (
+    <div className={`check-result tier-${result.tier}`}>
+      <h3 className="check-title">{attrName} Check</h3>
+      <div className="check-breakdown">
+        <span className="check-dice">
+          {count}d{sides}: [{result.rolls.join(', ')}]
+          {modifier !== 0 && ` ${modifier > 0 ? '+' : '−'} ${Math.abs(modifier)}`}
+        </span>
+        <span className="check-bonus">
+          {result.attributeBonus >= 0 ? '+' : '−'} {Math.abs(result.attributeBonus)} {attrName} ({describeAttribute(result.attributeBonus)})
+        </span>
+        <span className="check-total">= {result.total}</span>
+        <span className="check-difficulty">
+          vs difficulty {result.difficulty}
+          {result.fateShift !== 0 && ` (${result.baseDifficulty} ${result.fateShift > 0 ? '+' : '−'} ${Math.abs(result.fateShift)} fate)`}
+        </span>
+      </div>
+      <p className="check-tier">{TIER_LABELS[result.tier]}</p>
+      <button onClick={onContinue} className="choice-button check-continue">
+        Continue
+      </button>
+    </div>
+  );
+}
+
+export function ScenarioPlayer({
+  scenario,
+  character,
+  variables,
+  visitSeed,
+  exploredChoices,
+  onChoice,
+  onRestart,
+  onOpenTimeline,
+  onOpenEndings,
+  autoplay,
+  onAutoplayChange,
+}: ScenarioPlayerProps) {
+  // Chance gates use a fresh rng from the visit seed, so recomputing
+  // for the same visit always gives the same choices
+  const availableChoices = useMemo(
+    () => getAvailableChoices(scenario.choices, character, createRng(visitSeed), variables),
+    [scenario, character, visitSeed, variables]
+  );
+
+  // Prose is rendered against the runtime character, so effects show up in the text
+  const content = useMemo(
+    () => renderTemplate(scenario.content, character, scenario.conditions, characterCreationData.categories, variables),
+    [scenario, character, variables]
+  );
+
+  const [pendingCheck, setPendingCheck] = useState<PendingCheck | null>(null);
+
+  const handleChoice = (choice: Choice, index: number) => {
+    const outcome = findOutcome(choice.outcomes, character, variables);
+    if (!outcome) return;
+
+    if (hasCheck(outcome)) {
+      // Each choice rolls from its own stream, so the roll is fixed for this visit
+      const rng = createRng(deriveSeed(visitSeed, 'check', index));
+      const result = resolveCheck(outcome, character, rng);
+      setPendingCheck({
+        outcome: { ...outcome, next: result.next },
+        choiceIndex: index,
+        attribute: outcome.check.attribute,
+        result,
+      });
+      return;
+    }
+
+    onChoice(outcome, index);
+  };
+
+  // Make one decision on the character's behalf (or continue past a rolled check)
+  const autoStep = () => {
+    if (pendingCheck) {
+      onChoice(pendingCheck.outcome, pendingCheck.choiceIndex);
+      return;
     }
+    if (scenario.isEnding || availableChoices.length === 0) return;
+
+    const policy = getDecisionPolicy(autoplay.policyId);
+    const rng = createRng(deriveSeed(visitSeed, 'autoplay'));
+    const choice = chooseWithPolicy(policy, availableChoices, character, rng, variables);
+    handleChoice(choice, scenario.choices.indexOf(choice));
   };
 
+  // While autoplay runs, take the next step after the configured delay
+  useEffect(() => {
+    if (!autoplay.running || scenario.isEnding) return;
+    const timer = setTimeout(autoStep, autoplay.delayMs);
+    return () => clearTimeout(timer);
+  });
+
   return (
     <div className="scenario-player">
       <div className="scenario-content">
-        <ReactMarkdown>{scenario.content}</ReactMarkdown>
+        <ReactMarkdown>{content}</ReactMarkdown>
       </div>
 
+      {!scenario.isEnding && (
+        <AutoplayControls
+          settings={autoplay}
+          onChange={onAutoplayChange}
+          onStep={autoStep}
+          canStep={pendingCheck !== null || availableChoices.length > 0}
+        />
+      )}
+
       {scenario.isEnding ? (
         <div className="ending-screen">
+          <button onClick={onOpenTimeline} className="rewind-button">
+            Rewind &amp; Try Another Path
+          </button>
+          <button onClick={onOpenEndings} className="rewind-button">
+            Endings Codex
+          </button>
           <button onClick={onRestart} className="restart-button">
             Play Again
           </button>
         </div>
+      ) : pendingCheck ? (
+        <div className="choices">
+          <CheckResultPanel
+            check={pendingCheck}
+            onContinue={() => onChoice(pendingCheck.outcome, pendingCheck.choiceIndex)}
+          />
+        </div>
       ) : (
         <div className="choices">
-          {availableChoices.map((choice, index) => (
-            <button
-              key={index}
-              onClick={() => handleChoice(choice)}
-              className="choice-button"
-            >
-              {choice.text}
-            </button>
-          ))}
+          {availableChoices.map(choice => {
+            const index = scenario.choices.indexOf(choice);
+            const explored = exploredChoices.includes(index);
+            return (
+              <button
+                key={index}
+                onClick={() => handleChoice(choice, index)}
+                className={`choice-button ${explored ? 'explored' : ''}`}
+              >
+                {choice.text}
+                {explored && <span className="explored-badge">explored</span>}
+              </button>
+            );
+          })}
           {availableChoices.length === 0 && (
             <p className="no-choices">No available choices... (This shouldn't happen!)</p>
           )}
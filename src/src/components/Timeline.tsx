@@ -0,0 +1,63 @@
+import type { GameState, Scenario, ScenarioBundle } from '../types/game';
+
+interface TimelineProps {
+  gameState: GameState;
+  scenarios: ScenarioBundle;
+  onRewind: (timelineIndex: number) => void;
+  onClose: () => void;
+}
+
+// Title for a scenario: ending title, else the first markdown heading, else its ID
+function getScenarioTitle(scenario: Scenario | undefined, fallback: string): string {
+  if (!scenario) return fallback;
+  if (scenario.endingTitle) return scenario.endingTitle;
+  const heading = /^#+\s+(.+)$/m.exec(scenario.content);
+  return heading ? heading[1].trim() : fallback;
+}
+
+export function Timeline({ gameState, scenarios, onRewind, onClose }: TimelineProps) {
+  const lastIndex = gameState.timeline.length - 1;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content timeline-panel" onClick={e => e.stopPropagation()}>
+        <header className="modal-header">
+          <h2>Timeline</h2>
+          <button className="modal-close" onClick={onClose}>&times;</button>
+        </header>
+
+        <ol className="timeline-list">
+          {gameState.timeline.map((entry, index) => {
+            const scenario = scenarios[entry.scenarioId];
+            const choiceCount = scenario?.choices.length ?? 0;
+            const explored = gameState.explored[entry.scenarioId] ?? [];
+            const taken = entry.choiceIndex !== undefined ? scenario?.choices[entry.choiceIndex] : undefined;
+            const isCurrent = index === lastIndex;
+
+            return (
+              <li key={index} className={`timeline-entry ${isCurrent ? 'current' : ''}`}>
+                <div className="timeline-info">
+                  <span className="timeline-step">Step {index + 1}</span>
+                  <span className="timeline-title">{getScenarioTitle(scenario, entry.scenarioId)}</span>
+                  {taken && <span className="timeline-choice">→ {taken.text}</span>}
+                  {choiceCount > 0 && (
+                    <span className={`timeline-explored ${explored.length >= choiceCount ? 'complete' : ''}`}>
+                      {explored.length}/{choiceCount} branches explored
+                    </span>
+                  )}
+                </div>
+                {isCurrent ? (
+                  <span className="timeline-here">You are here</span>
+                ) : (
+                  <button className="save-action-btn" onClick={() => onRewind(index)}>
+                    Rewind here
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import type { PlaytestPreset } from '../types/game';
+import data from './playtestPresets.json';
+
+/**
+ * Ready-made characters for the Edit Mode playtest launcher.
+ */
+export const playtestPresets: PlaytestPreset[] = data as PlaytestPreset[];
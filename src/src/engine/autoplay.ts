@@ -0,0 +1,152 @@
+import type { Character, Choice, WorldVariables } from '../types/game';
+import { findOutcome } from './conditions';
+import type { Rng } from './random';
+
+// A strategy for picking a choice on the character's behalf
+// Policies weigh the available choices; a choice is then drawn in
+// proportion to its weight, so the odds of each choice are known exactly
+export interface DecisionPolicy {
+  id: string;
+  name: string;
+  description: string;
+  // One non-negative weight per choice (never called with an empty list)
+  weigh: (choices: Choice[], character: Character, variables: WorldVariables) => number[];
+}
+
+export interface AutoplaySettings {
+  running: boolean;
+  policyId: string;
+  delayMs: number; // Pause before each automatic decision
+}
+
+export const AUTOPLAY_SPEEDS: { label: string; delayMs: number }[] = [
+  { label: 'Slow', delayMs: 3000 },
+  { label: 'Normal', delayMs: 1500 },
+  { label: 'Fast', delayMs: 500 },
+];
+
+/**
+ * Score how well a choice fits a character
+ * Author affinities count most; otherwise the character leans towards
+ * choices gated on their build and choices where their build changes the outcome
+ */
+export function scoreChoice(choice: Choice, character: Character, variables: WorldVariables = {}): number {
+  let score = 0;
+
+  if (choice.affinity?.traits) {
+    for (const [trait, weight] of Object.entries(choice.affinity.traits)) {
+      if (character.traits.includes(trait)) {
+        score += weight;
+      }
+    }
+  }
+
+  if (choice.affinity?.attributes) {
+    for (const [attr, weight] of Object.entries(choice.affinity.attributes)) {
+      score += (weight ?? 0) * (character.attributes[attr] ?? 0);
+    }
+  }
+
+  // Gated choices exist because of who the character is
+  if (choice.available?.requires) {
+    score += 1;
+  }
+
+  // A non-default outcome means the character's build matters here
+  const outcome = findOutcome(choice.outcomes, character, variables);
+  if (outcome && outcome.condition !== 'default') {
+    score += 1;
+  }
+
+  return score;
+}
+
+/**
+ * Pick from choices with probability proportional to their weights
+ * All-zero weights fall back to equal odds
+ */
+function pickWeighted(choices: Choice[], weights: number[], rng: Rng): Choice {
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (total <= 0) {
+    return choices[Math.floor(rng() * choices.length)];
+  }
+
+  let roll = rng() * total;
+  for (let i = 0; i < choices.length; i++) {
+    roll -= Math.max(0, weights[i]);
+    if (roll < 0) {
+      return choices[i];
+    }
+  }
+  return choices[choices.length - 1];
+}
+
+const inCharacterPolicy: DecisionPolicy = {
+  id: 'in-character',
+  name: 'In Character',
+  description: "Picks the choice that best fits the character's traits and attributes",
+  weigh: (choices, character, variables) => {
+    const scores = choices.map(c => scoreChoice(c, character, variables));
+    const best = Math.max(...scores);
+    return scores.map(score => (score === best ? 1 : 0));
+  },
+};
+
+const randomPolicy: DecisionPolicy = {
+  id: 'random',
+  name: 'Random',
+  description: 'Picks any available choice with equal odds',
+  weigh: choices => choices.map(() => 1),
+};
+
+const weightedPolicy: DecisionPolicy = {
+  id: 'weighted',
+  name: 'Author Weighted',
+  description: 'Picks randomly, favoring choices the author weighted higher',
+  weigh: choices => choices.map(c => c.weight ?? 1),
+};
+
+export const DECISION_POLICIES: DecisionPolicy[] = [inCharacterPolicy, randomPolicy, weightedPolicy];
+
+export const DEFAULT_AUTOPLAY_SETTINGS: AutoplaySettings = {
+  running: false,
+  policyId: inCharacterPolicy.id,
+  delayMs: 1500,
+};
+
+/**
+ * Look up a decision policy by ID (falls back to the default policy)
+ */
+export function getDecisionPolicy(policyId: string): DecisionPolicy {
+  return DECISION_POLICIES.find(p => p.id === policyId) ?? inCharacterPolicy;
+}
+
+/**
+ * Probability of a policy picking each choice (same order as choices)
+ */
+export function getChoiceOdds(
+  policy: DecisionPolicy,
+  choices: Choice[],
+  character: Character,
+  variables: WorldVariables
+): number[] {
+  const weights = policy.weigh(choices, character, variables).map(w => Math.max(0, w));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) {
+    return choices.map(() => 1 / choices.length);
+  }
+  return weights.map(w => w / total);
+}
+
+/**
+ * Let a policy pick one of the available choices
+ */
+export function chooseWithPolicy(
+  policy: DecisionPolicy,
+  choices: Choice[],
+  character: Character,
+  rng: Rng,
+  variables: WorldVariables
+): Choice {
+  return pickWeighted(choices, policy.weigh(choices, character, variables), rng);
+}
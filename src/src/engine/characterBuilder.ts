@@ -9,6 +9,13 @@ import type {
   CharacterCreationData,
   AppearanceSelections,
   AppearanceConfig,
+  AppearanceEffects,
+  AppearanceOption,
+  BuildType,
+  SkinTone,
+  HairColor,
+  DroppedPick,
+  OptionRef,
 } from '../types/game';
 
 // Default attribute values
@@ -71,57 +78,88 @@ function getSelectedOptions(
   return options;
 }
 
+// One appearance choice and its current pick
+export interface AppearanceAxisPick {
+  id: string; // 'build', 'skinTone', 'hairColor', or an extra axis ID
+  name: string;
+  options: AppearanceOption[];
+  selectedId?: string;
+}
+
 /**
- * Calculate appearance-related effects
+ * Every appearance axis in step order: build, skin tone, hair color, then
+ * the extra axes from the appearance config (portraits aren't an axis)
  */
-function getAppearanceEffects(
+export function getAppearanceAxes(
   selections: AppearanceSelections,
   config: AppearanceConfig
-): { fate: number; attributes: Partial<Record<AttributeId, number>>; traits: string[] } {
-  let fate = 0;
-  const attributes: Partial<Record<AttributeId, number>> = {};
-  const traits: string[] = [];
-
-  if (selections.build) {
-    const build = config.builds.find(b => b.id === selections.build);
-    if (build) {
-      fate += build.fate ?? 0;
-      if (build.attributes) {
-        for (const [attr, value] of Object.entries(build.attributes)) {
-          attributes[attr as AttributeId] = (attributes[attr as AttributeId] ?? 0) + value;
-        }
-      }
-      if (build.traits) traits.push(...build.traits);
-    }
-  }
+): AppearanceAxisPick[] {
+  return [
+    { id: 'build', name: 'Build', options: config.builds, selectedId: selections.build },
+    { id: 'skinTone', name: 'Skin Tone', options: config.skinTones, selectedId: selections.skinTone },
+    { id: 'hairColor', name: 'Hair Color', options: config.hairColors, selectedId: selections.hairColor },
+    ...(config.extraAxes ?? []).map(axis => ({
+      id: axis.id,
+      name: axis.name,
+      options: axis.options,
+      selectedId: selections.extra?.[axis.id],
+    })),
+  ];
+}
 
-  if (selections.hairColor) {
-    const hair = config.hairColors.find(h => h.id === selections.hairColor);
-    if (hair) {
-      fate += hair.fate ?? 0;
-      if (hair.traits) traits.push(...hair.traits);
-    }
+/**
+ * Set the pick on one appearance axis (see getAppearanceAxes)
+ */
+export function setAppearancePick(
+  selections: AppearanceSelections,
+  axisId: string,
+  optionId: string
+): AppearanceSelections {
+  switch (axisId) {
+    case 'build': return { ...selections, build: optionId as BuildType };
+    case 'skinTone': return { ...selections, skinTone: optionId as SkinTone };
+    case 'hairColor': return { ...selections, hairColor: optionId as HairColor };
+    default: return { ...selections, extra: { ...selections.extra, [axisId]: optionId } };
   }
+}
 
-  if (selections.portraitId) {
-    const portrait = config.portraits.find(p => p.id === selections.portraitId);
-    if (portrait) {
-      fate += portrait.fate ?? 0;
-      if (portrait.traits) traits.push(...portrait.traits);
+/**
+ * Calculate appearance-related effects: the picked option on every axis, and the portrait
+ */
+export function getAppearanceEffects(
+  selections: AppearanceSelections,
+  config: AppearanceConfig
+): AppearanceEffects {
+  const picks: Array<Pick<AppearanceOption, 'fate' | 'attributes' | 'traits'> | undefined> = [
+    ...getAppearanceAxes(selections, config).map(axis => axis.options.find(o => o.id === axis.selectedId)),
+    config.portraits.find(p => p.id === selections.portraitId),
+  ];
+
+  const effects: AppearanceEffects = { fate: 0, attributes: {}, traits: [] };
+  for (const pick of picks) {
+    if (!pick) continue;
+    effects.fate += pick.fate ?? 0;
+    for (const [attr, value] of Object.entries(pick.attributes ?? {})) {
+      effects.attributes[attr as AttributeId] = (effects.attributes[attr as AttributeId] ?? 0) + value;
     }
+    effects.traits.push(...(pick.traits ?? []));
   }
 
-  return { fate, attributes, traits };
+  return effects;
 }
 
 /**
  * Recalculate derived values from current selections
+ * Appearance effects already applied (state.appearanceEffects) are kept
  */
 export function recalculateDerivedValues(
   state: CharacterBuilderState,
   data: CharacterCreationData
 ): CharacterBuilderState {
-  const selectedOptions = getSelectedOptions(state, data);
+  const selectedOptions: Array<Pick<CharacterOption, 'fate' | 'attributes' | 'traits'>> = [
+    ...getSelectedOptions(state, data),
+    ...(state.appearanceEffects ? [state.appearanceEffects] : []),
+  ];
 
   // Calculate fate
   let fate = 0;
@@ -158,89 +196,132 @@ export function recalculateDerivedValues(
 }
 
 /**
- * Update appearance selections and recalculate derived values
+ * Point-buy cost of an option
+ * Its own cost wins; otherwise it costs the category's optionCost, or
+ * refunds it if the option is a drawback
  */
-export function updateAppearanceSelections(
-  selections: AppearanceSelections,
-  state: CharacterBuilderState,
-  appearanceConfig: AppearanceConfig
-): CharacterBuilderState {
-  // Get the effects from the OLD appearance selections
-  const oldEffects = state.appearanceSelections
-    ? getAppearanceEffects(state.appearanceSelections, appearanceConfig)
-    : { fate: 0, attributes: {}, traits: [] };
-
-  // Get the effects from the NEW appearance selections
-  const newEffects = getAppearanceEffects(selections, appearanceConfig);
-
-  // Calculate the new derived values by removing old and adding new
-  let fate = state.calculatedFate - oldEffects.fate + newEffects.fate;
-
-  const attributes = { ...state.calculatedAttributes };
-  // Remove old appearance attributes
-  for (const [attr, value] of Object.entries(oldEffects.attributes)) {
-    attributes[attr as AttributeId] -= value;
-  }
-  // Add new appearance attributes
-  for (const [attr, value] of Object.entries(newEffects.attributes)) {
-    attributes[attr as AttributeId] += value;
+export function getOptionCost(option: CharacterOption, category: CategoryConfig): number {
+  if (option.cost !== undefined) {
+    return option.cost;
   }
+  const categoryCost = category.optionCost ?? 0;
+  return option.isDrawback ? -categoryCost : categoryCost;
+}
 
-  // Update traits
-  const traitSet = new Set(state.calculatedTraits);
-  // Remove old appearance traits
-  for (const trait of oldEffects.traits) {
-    traitSet.delete(trait);
+/**
+ * Points left in the point-buy budget, or null when point-buy is off
+ * Negative when the picks cost more than the budget
+ */
+export function getRemainingPoints(
+  state: CharacterBuilderState,
+  data: CharacterCreationData
+): number | null {
+  if (!data.pointBuy?.enabled) {
+    return null;
   }
-  // Add new appearance traits
-  for (const trait of newEffects.traits) {
-    traitSet.add(trait);
+
+  let spent = 0;
+  for (const category of data.categories) {
+    for (const optionId of state.selections[category.id] || []) {
+      const option = category.options.find(o => o.id === optionId);
+      if (option) {
+        spent += getOptionCost(option, category);
+      }
+    }
   }
 
-  return {
+  return data.pointBuy.budget - spent;
+}
+
+// A change that went through (picks it broke are dropped), or why it can't
+type ChangeResult = { state: CharacterBuilderState } | { blocked: string };
+
+/**
+ * Preview for updateAppearanceSelections: the new appearance's effects with
+ * the derived values recalculated, and picks whose requirements it breaks
+ * dropped, or why their category refuses the change
+ */
+function previewAppearanceChange(
+  selections: AppearanceSelections,
+  state: CharacterBuilderState,
+  appearanceConfig: AppearanceConfig,
+  data: CharacterCreationData
+): ChangeResult {
+  const recalculate = (next: CharacterBuilderState) => recalculateDerivedValues(next, data);
+  const updated = recalculate({
     ...state,
     appearanceSelections: selections,
-    calculatedFate: fate,
-    calculatedAttributes: attributes,
-    calculatedTraits: Array.from(traitSet),
-  };
+    appearanceEffects: getAppearanceEffects(selections, appearanceConfig),
+  });
+  return dropUnmetPicks(updated, data, recalculate);
+}
+
+/**
+ * Update appearance selections and recalculate derived values
+ * Picks whose requirements the new appearance breaks are dropped, or the
+ * change is refused if their category blocks it
+ */
+export function updateAppearanceSelections(
+  selections: AppearanceSelections,
+  state: CharacterBuilderState,
+  appearanceConfig: AppearanceConfig,
+  data: CharacterCreationData
+): CharacterBuilderState {
+  const result = previewAppearanceChange(selections, state, appearanceConfig, data);
+  return 'state' in result ? result.state : state;
+}
+
+/**
+ * Why an appearance change would be refused, or null if it's allowed
+ */
+export function getAppearanceChangeBlocker(
+  selections: AppearanceSelections,
+  state: CharacterBuilderState,
+  appearanceConfig: AppearanceConfig,
+  data: CharacterCreationData
+): string | null {
+  const result = previewAppearanceChange(selections, state, appearanceConfig, data);
+  return 'blocked' in result ? result.blocked : null;
 }
 
 /**
- * Check if a single requirement is met
+ * Check if a single requirement is met by a character
+ * Shared by option prerequisites and scenario start requirements
  */
-function checkRequirement(
+export function checkRequirement(
   req: OptionRequirement,
-  state: CharacterBuilderState
+  character: Character
 ): boolean {
   // Trait requirement
   if (req.trait) {
-    if (!state.calculatedTraits.includes(req.trait)) {
+    if (!character.traits.includes(req.trait)) {
       return false;
     }
   }
 
   // Not-trait requirement
   if (req.notTrait) {
-    if (state.calculatedTraits.includes(req.notTrait)) {
+    if (character.traits.includes(req.notTrait)) {
       return false;
     }
   }
 
   // Attribute requirement
   if (req.attribute) {
-    const value = state.calculatedAttributes[req.attribute.id] ?? 0;
+    const value = character.attributes[req.attribute.id] ?? 0;
     switch (req.attribute.op) {
       case '>=': if (!(value >= req.attribute.value)) return false; break;
       case '>': if (!(value > req.attribute.value)) return false; break;
       case '<=': if (!(value <= req.attribute.value)) return false; break;
       case '<': if (!(value < req.attribute.value)) return false; break;
+      case '==': if (!(value === req.attribute.value)) return false; break;
+      case '!=': if (!(value !== req.attribute.value)) return false; break;
     }
   }
 
   // Selection requirement
   if (req.selection) {
-    const categorySelections = state.selections[req.selection.category] || [];
+    const categorySelections = character.selections[req.selection.category] || [];
     if (!categorySelections.includes(req.selection.optionId)) {
       return false;
     }
@@ -248,43 +329,155 @@ function checkRequirement(
 
   // Not-selection requirement
   if (req.notSelection) {
-    const categorySelections = state.selections[req.notSelection.category] || [];
+    const categorySelections = character.selections[req.notSelection.category] || [];
     if (categorySelections.includes(req.notSelection.optionId)) {
       return false;
     }
   }
 
+  // Requirement groups
+  if (req.all && !req.all.every(r => checkRequirement(r, character))) {
+    return false;
+  }
+  if (req.any && !req.any.some(r => checkRequirement(r, character))) {
+    return false;
+  }
+  if (req.not && checkRequirement(req.not, character)) {
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Split a requirement into one requirement per field that is set,
+ * so each can be checked and explained on its own
+ */
+export function splitRequirement(req: OptionRequirement): OptionRequirement[] {
+  return (Object.keys(req) as Array<keyof OptionRequirement>)
+    .filter(key => req[key] !== undefined)
+    .map(key => ({ [key]: req[key] }));
+}
+
+/**
+ * Whether a character meets all of an option's requirements
+ */
+function meetsRequirements(option: CharacterOption, character: Character): boolean {
+  return (option.requires ?? []).every(req => checkRequirement(req, character));
+}
+
+/**
+ * Drop picks whose requirements no longer hold, repeating until none are
+ * left, since a dropped pick can take others' requirements with it
+ * Refuses the change instead if one of them is in a category whose
+ * onPrerequisiteLost policy is 'block'
+ */
+function dropUnmetPicks(
+  state: CharacterBuilderState,
+  data: CharacterCreationData,
+  recalculate: (state: CharacterBuilderState) => CharacterBuilderState
+): ChangeResult {
+  const dropped: DroppedPick[] = [];
+  let current = state;
+
+  for (;;) {
+    const character = buildCharacter(current);
+    const unmet = data.categories.flatMap(category =>
+      (current.selections[category.id] || [])
+        .map(optionId => category.options.find(o => o.id === optionId))
+        .filter((option): option is CharacterOption => !!option && !meetsRequirements(option, character))
+        .map(option => ({ category, option }))
+    );
+    if (unmet.length === 0) {
+      break;
+    }
+
+    const blocking = unmet.filter(({ category }) => category.onPrerequisiteLost === 'block');
+    if (blocking.length > 0) {
+      return { blocked: `Needed by ${blocking.map(({ option }) => option.name).join(', ')}` };
+    }
+
+    const selections = { ...current.selections };
+    for (const { category, option } of unmet) {
+      selections[category.id] = selections[category.id].filter(id => id !== option.id);
+      dropped.push({ category: category.id, optionId: option.id, name: option.name });
+    }
+    current = recalculate({ ...current, selections });
+  }
+
+  return { state: { ...current, droppedPicks: dropped } };
+}
+
+/**
+ * Whether an incompatibleWith entry of an option in ownCategory points at the given option
+ * Plain IDs refer to the option's own category
+ */
+function refersTo(ref: string | OptionRef, ownCategory: CategoryId, category: CategoryId, optionId: string): boolean {
+  return typeof ref === 'string'
+    ? ownCategory === category && ref === optionId
+    : ref.category === category && ref.optionId === optionId;
+}
+
+/**
+ * Why an option can't be picked alongside the current picks: options it's
+ * incompatible with (listed on either side) and full exclusivity groups
+ * Empty if there's no conflict
+ */
+export function getOptionConflicts(
+  option: CharacterOption,
+  category: CategoryConfig,
+  state: CharacterBuilderState,
+  data: CharacterCreationData
+): string[] {
+  // Picking in a single-select category replaces its current pick, so that can't conflict
+  const others = data.categories.flatMap(other =>
+    other.maxPicks === 1 && other.id === category.id
+      ? []
+      : (state.selections[other.id] || [])
+          .filter(optionId => !(other.id === category.id && optionId === option.id))
+          .map(optionId => other.options.find(o => o.id === optionId))
+          .filter((o): o is CharacterOption => o !== undefined)
+          .map(o => ({ category: other, option: o }))
+  );
+  const label = (pick: { category: CategoryConfig; option: CharacterOption }) =>
+    pick.category.id === category.id ? pick.option.name : `${pick.option.name} (${pick.category.name})`;
+
+  const conflicts = others
+    .filter(pick =>
+      (option.incompatibleWith ?? []).some(ref => refersTo(ref, category.id, pick.category.id, pick.option.id)) ||
+      (pick.option.incompatibleWith ?? []).some(ref => refersTo(ref, pick.category.id, category.id, option.id))
+    )
+    .map(pick => `Incompatible with ${label(pick)}`);
+
+  for (const groupId of option.exclusiveGroups ?? []) {
+    const group = data.exclusiveGroups?.find(g => g.id === groupId) ?? { id: groupId, name: groupId };
+    const maxPicks = group.maxPicks ?? 1;
+    const members = others.filter(pick => pick.option.exclusiveGroups?.includes(groupId));
+    if (members.length >= maxPicks) {
+      const limit = maxPicks === 1 ? 'Only one' : `At most ${maxPicks}`;
+      conflicts.push(`${limit} ${group.name}: already have ${members.map(label).join(', ')}`);
+    }
+  }
+
+  return conflicts;
+}
+
 /**
  * Check if an option is available given current state
  */
 export function isOptionAvailable(
   option: CharacterOption,
   category: CategoryConfig,
-  state: CharacterBuilderState
+  state: CharacterBuilderState,
+  data: CharacterCreationData
 ): boolean {
   // Check requirements
-  if (option.requires) {
-    for (const req of option.requires) {
-      if (!checkRequirement(req, state)) {
-        return false;
-      }
-    }
-  }
-
-  // Check incompatibilities
-  if (option.incompatibleWith) {
-    const categorySelections = state.selections[category.id] || [];
-    for (const incompatId of option.incompatibleWith) {
-      if (categorySelections.includes(incompatId)) {
-        return false;
-      }
-    }
+  if (option.requires && !meetsRequirements(option, buildCharacter(state))) {
+    return false;
   }
 
-  return true;
+  // Check incompatibilities and exclusivity groups
+  return getOptionConflicts(option, category, state, data).length === 0;
 }
 
 /**
@@ -293,7 +486,8 @@ export function isOptionAvailable(
  */
 export function isCategoryFullyLocked(
   category: CategoryConfig,
-  state: CharacterBuilderState
+  state: CharacterBuilderState,
+  data: CharacterCreationData
 ): boolean {
   // Special categories that use custom selectors are never fully locked
   if (category.id === 'appearance') {
@@ -307,7 +501,7 @@ export function isCategoryFullyLocked(
 
   // Check if at least one option is available
   for (const option of category.options) {
-    if (isOptionAvailable(option, category, state)) {
+    if (isOptionAvailable(option, category, state, data)) {
       return false; // Found an available option, not fully locked
     }
   }
@@ -327,14 +521,14 @@ export function isOptionSelected(
 }
 
 /**
- * Toggle an option selection
+ * Selections for a category after toggling an option, or null if the
+ * category is already at its max picks
  */
-export function toggleOption(
+function getToggledSelections(
   optionId: string,
   category: CategoryConfig,
-  state: CharacterBuilderState,
-  data: CharacterCreationData
-): CharacterBuilderState {
+  state: CharacterBuilderState
+): CharacterBuilderState['selections'] | null {
   const currentSelections = [...(state.selections[category.id] || [])];
   const isCurrentlySelected = currentSelections.includes(optionId);
 
@@ -350,23 +544,87 @@ export function toggleOption(
       newSelections = [optionId];
     } else if (currentSelections.length >= category.maxPicks) {
       // Max reached: can't add more
-      return state;
+      return null;
     } else {
       // Multi-select: add
       newSelections = [...currentSelections, optionId];
     }
   }
 
-  const newState: CharacterBuilderState = {
-    ...state,
-    selections: {
-      ...state.selections,
-      [category.id]: newSelections,
-    },
-  };
+  return { ...state.selections, [category.id]: newSelections };
+}
+
+/**
+ * Whether a change keeps the build within the point-buy budget
+ * A change may not overspend, or drop a drawback whose refund is already
+ * spent; changes to an overspent build (e.g. an old save) must not make it worse
+ */
+function isWithinBudget(
+  before: CharacterBuilderState,
+  after: CharacterBuilderState,
+  data: CharacterCreationData
+): boolean {
+  const remaining = getRemainingPoints(after, data);
+  return remaining === null || remaining >= 0 || remaining >= getRemainingPoints(before, data)!;
+}
+
+/**
+ * The state after toggling an option, or why it can't be toggled
+ * Null if the category is at its max picks
+ */
+function previewToggle(
+  optionId: string,
+  category: CategoryConfig,
+  state: CharacterBuilderState,
+  data: CharacterCreationData
+): ChangeResult | null {
+  const selections = getToggledSelections(optionId, category, state);
+  if (!selections) {
+    return null;
+  }
+
+  const recalculate = (next: CharacterBuilderState) => recalculateDerivedValues(next, data);
+  const result = dropUnmetPicks(recalculate({ ...state, selections }), data, recalculate);
+  if ('blocked' in result) {
+    return result;
+  }
+
+  if (!isWithinBudget(state, result.state, data)) {
+    return { blocked: selections[category.id].includes(optionId) ? 'Not enough points' : 'Refund already spent' };
+  }
+
+  return result;
+}
 
-  // Recalculate derived values
-  return recalculateDerivedValues(newState, data);
+/**
+ * Why toggling an option would be refused (point-buy budget, or a pick
+ * that needs it in a blocking category), or null if it's allowed
+ * Max picks aren't reported here; the category selector shows those
+ */
+export function getToggleBlocker(
+  optionId: string,
+  category: CategoryConfig,
+  state: CharacterBuilderState,
+  data: CharacterCreationData
+): string | null {
+  const result = previewToggle(optionId, category, state, data);
+  return result && 'blocked' in result ? result.blocked : null;
+}
+
+/**
+ * Toggle an option selection
+ * Picks whose requirements the change breaks are dropped (listed in
+ * droppedPicks), or the change is refused if their category blocks it
+ * Returns the state unchanged if the pick isn't allowed (max picks, point-buy budget)
+ */
+export function toggleOption(
+  optionId: string,
+  category: CategoryConfig,
+  state: CharacterBuilderState,
+  data: CharacterCreationData
+): CharacterBuilderState {
+  const result = previewToggle(optionId, category, state, data);
+  return result && 'state' in result ? result.state : state;
 }
 
 /**
@@ -379,7 +637,7 @@ export function isCategoryComplete(
   // Special handling for appearance category
   if (category.id === 'appearance') {
     // Appearance is complete when build, skinTone, and hairColor are selected
-    // Portrait is optional (might not have any matching portraits yet)
+    // Portrait is optional (might not have any matching portraits yet), and so are extra axes
     const { build, skinTone, hairColor } = state.appearanceSelections || {};
     return !!(build && skinTone && hairColor);
   }
@@ -398,13 +656,19 @@ export function isCharacterComplete(
 ): boolean {
   for (const category of data.categories) {
     // Skip fully-locked categories (e.g., Spells for non-spellcasters)
-    if (isCategoryFullyLocked(category, state)) {
+    if (isCategoryFullyLocked(category, state, data)) {
       continue;
     }
     if (!isCategoryComplete(category, state)) {
       return false;
     }
   }
+
+  const remaining = getRemainingPoints(state, data);
+  if (remaining !== null && remaining < 0) {
+    return false;
+  }
+
   return state.name.trim().length > 0;
 }
 
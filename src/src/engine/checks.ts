@@ -0,0 +1,172 @@
+import type { Character, Outcome, SkillCheck, CheckTier } from '../types/game';
+import type { Rng } from './random';
+
+// Difficulty shift per point of fate when a check doesn't set fateWeight
+// Higher fate means harder trials, as promised on the character review screen
+export const DEFAULT_FATE_WEIGHT = 0.25;
+
+export interface DiceSpec {
+  count: number;
+  sides: number;
+  modifier: number;
+}
+
+// Full breakdown of a resolved check (shown to the player)
+export interface CheckResult {
+  dice: DiceSpec;
+  rolls: number[];
+  attributeBonus: number;
+  total: number;
+  baseDifficulty: number;
+  fateShift: number;
+  difficulty: number;
+  tier: CheckTier;
+  next: string; // scenario ID for the rolled tier
+}
+
+/**
+ * Parse dice notation like "2d6", "1d20" or "3d6-1"
+ * Returns null if the notation is invalid
+ */
+export function parseDice(notation: string): DiceSpec | null {
+  const match = /^\s*(\d*)d(\d+)\s*(?:([+-])\s*(\d+))?\s*$/i.exec(notation);
+  if (!match) {
+    return null;
+  }
+
+  const count = match[1] ? Number(match[1]) : 1;
+  const sides = Number(match[2]);
+  const modifier = match[4] ? Number(match[4]) * (match[3] === '-' ? -1 : 1) : 0;
+
+  if (count < 1 || sides < 2) {
+    return null;
+  }
+  return { count, sides, modifier };
+}
+
+/**
+ * Get the difficulty shift fate applies to a check
+ */
+export function getFateShift(check: SkillCheck, fate: number): number {
+  return Math.round(fate * (check.fateWeight ?? DEFAULT_FATE_WEIGHT));
+}
+
+/**
+ * Get the scenario a check tier leads to
+ * Critical tiers fall back to plain success/failure when not set
+ */
+export function getTierTarget(outcome: Outcome & { check: SkillCheck }, tier: CheckTier): string {
+  const { check } = outcome;
+  switch (tier) {
+    case 'criticalSuccess': return check.criticalSuccess ?? outcome.next;
+    case 'success': return outcome.next;
+    case 'criticalFailure': return check.criticalFailure ?? check.failure;
+    case 'failure': return check.failure;
+  }
+}
+
+/**
+ * Grade a roll by its margin over the difficulty
+ */
+function getTier(check: SkillCheck, margin: number, allMax: boolean, allMin: boolean): CheckTier {
+  const critMargin = check.criticalMargin;
+  if (margin >= 0) {
+    return allMax || (critMargin !== undefined && margin >= critMargin) ? 'criticalSuccess' : 'success';
+  }
+  return allMin || (critMargin !== undefined && -margin >= critMargin) ? 'criticalFailure' : 'failure';
+}
+
+/**
+ * Roll a skill check for a character
+ * Total = dice + modifier + attribute, against difficulty shifted by fate.
+ * All dice showing their max (or min) is a critical; so is beating (or
+ * missing) the difficulty by criticalMargin or more, when set.
+ */
+export function resolveCheck(
+  outcome: Outcome & { check: SkillCheck },
+  character: Character,
+  rng: Rng
+): CheckResult {
+  const { check } = outcome;
+  const dice = parseDice(check.dice) ?? { count: 2, sides: 6, modifier: 0 };
+
+  const rolls: number[] = [];
+  for (let i = 0; i < dice.count; i++) {
+    rolls.push(Math.floor(rng() * dice.sides) + 1);
+  }
+
+  const attributeBonus = character.attributes[check.attribute] ?? 0;
+  const total = rolls.reduce((sum, r) => sum + r, 0) + dice.modifier + attributeBonus;
+
+  const fateShift = getFateShift(check, character.fate);
+  const difficulty = check.difficulty + fateShift;
+
+  const allMax = rolls.every(r => r === dice.sides);
+  const allMin = rolls.every(r => r === 1);
+  const tier = getTier(check, total - difficulty, allMax, allMin);
+
+  return {
+    dice,
+    rolls,
+    attributeBonus,
+    total,
+    baseDifficulty: check.difficulty,
+    fateShift,
+    difficulty,
+    tier,
+    next: getTierTarget(outcome, tier),
+  };
+}
+
+/**
+ * Exact odds of each tier of a check for a character
+ * Works from the distribution of dice totals; all-max and all-min rolls
+ * are the single combinations at the top and bottom of that distribution
+ */
+export function getCheckOdds(
+  outcome: Outcome & { check: SkillCheck },
+  character: Character
+): Record<CheckTier, number> {
+  const { check } = outcome;
+  const dice = parseDice(check.dice) ?? { count: 2, sides: 6, modifier: 0 };
+
+  // ways[s] = number of ways the dice can sum to s
+  let ways = [1];
+  for (let i = 0; i < dice.count; i++) {
+    const next = new Array<number>(ways.length + dice.sides).fill(0);
+    ways.forEach((count, sum) => {
+      for (let face = 1; face <= dice.sides; face++) {
+        next[sum + face] += count;
+      }
+    });
+    ways = next;
+  }
+
+  const combinations = Math.pow(dice.sides, dice.count);
+  const bonus = dice.modifier + (character.attributes[check.attribute] ?? 0);
+  const difficulty = check.difficulty + getFateShift(check, character.fate);
+  const maxSum = dice.count * dice.sides;
+
+  const odds: Record<CheckTier, number> = { criticalSuccess: 0, success: 0, failure: 0, criticalFailure: 0 };
+  ways.forEach((count, sum) => {
+    if (count === 0) return;
+    const margin = sum + bonus - difficulty;
+    // At the extremes one combination is all-max (or all-min); the rest aren't
+    const special = sum === maxSum ? 'max' : sum === dice.count ? 'min' : null;
+    if (special) {
+      odds[getTier(check, margin, special === 'max', special === 'min')] += 1 / combinations;
+      if (count > 1) odds[getTier(check, margin, false, false)] += (count - 1) / combinations;
+    } else {
+      odds[getTier(check, margin, false, false)] += count / combinations;
+    }
+  });
+
+  return odds;
+}
+
+/**
+ * Check if an outcome carries a skill check
+ */
+export function hasCheck(outcome: Outcome): outcome is Outcome & { check: SkillCheck } {
+  return outcome.check !== undefined;
+}
@@ -1,4 +1,40 @@
-import type { Character, Condition, AttributeCondition, TraitCondition, Choice, Outcome } from '../types/game';
+import type {
+  Character,
+  Condition,
+  AttributeCondition,
+  TraitCondition,
+  FlagCondition,
+  SelectionCondition,
+  CategoryCountCondition,
+  FateCondition,
+  ItemCondition,
+  ItemTagCondition,
+  VariableCondition,
+  WorldVariables,
+  ComparisonOp,
+  AllCondition,
+  AnyCondition,
+  NotCondition,
+  Choice,
+  Outcome,
+} from '../types/game';
+import type { Rng } from './random';
+import { countItem, hasItemTag } from './inventory';
+
+/**
+ * Compare a value against a target using a comparison operator
+ */
+function compare(value: number, op: ComparisonOp, target: number): boolean {
+  switch (op) {
+    case '>': return value > target;
+    case '<': return value < target;
+    case '>=': return value >= target;
+    case '<=': return value <= target;
+    case '==': return value === target;
+    case '!=': return value !== target;
+    default: return false;
+  }
+}
 
 /**
  * Check if a condition is an attribute condition
@@ -15,24 +51,103 @@ function isTraitCondition(cond: Condition): cond is TraitCondition {
 }
 
 /**
- * Evaluate a single condition against a character
+ * Check if a condition is a story flag condition
+ */
+function isFlagCondition(cond: Condition): cond is FlagCondition {
+  return typeof cond === 'object' && 'flag' in cond;
+}
+
+/**
+ * Check if a condition is a character-creation selection condition
+ */
+function isSelectionCondition(cond: Condition): cond is SelectionCondition {
+  return typeof cond === 'object' && 'optionId' in cond;
+}
+
+/**
+ * Check if a condition is a category pick-count condition
+ */
+function isCategoryCountCondition(cond: Condition): cond is CategoryCountCondition {
+  return typeof cond === 'object' && 'categoryCount' in cond;
+}
+
+/**
+ * Check if a condition is a fate condition
+ */
+function isFateCondition(cond: Condition): cond is FateCondition {
+  return typeof cond === 'object' && 'fate' in cond;
+}
+
+/**
+ * Check if a condition is an inventory item condition
+ */
+function isItemCondition(cond: Condition): cond is ItemCondition {
+  return typeof cond === 'object' && 'item' in cond;
+}
+
+/**
+ * Check if a condition is an inventory item tag condition
  */
-export function evaluateCondition(condition: Condition, character: Character): boolean {
+function isItemTagCondition(cond: Condition): cond is ItemTagCondition {
+  return typeof cond === 'object' && 'itemTag' in cond;
+}
+
+/**
+ * Check if a condition is a world-state variable condition
+ */
+function isVariableCondition(cond: Condition): cond is VariableCondition {
+  return typeof cond === 'object' && 'variable' in cond;
+}
+
+/**
+ * Check if a condition is an AND group
+ */
+function isAllCondition(cond: Condition): cond is AllCondition {
+  return typeof cond === 'object' && 'all' in cond;
+}
+
+/**
+ * Check if a condition is an OR group
+ */
+function isAnyCondition(cond: Condition): cond is AnyCondition {
+  return typeof cond === 'object' && 'any' in cond;
+}
+
+/**
+ * Check if a condition is a negation
+ */
+function isNotCondition(cond: Condition): cond is NotCondition {
+  return typeof cond === 'object' && 'not' in cond;
+}
+
+/**
+ * Evaluate a condition (simple or compound) against a character
+ * and the run's world-state variables
+ */
+export function evaluateCondition(
+  condition: Condition,
+  character: Character,
+  variables: WorldVariables = {}
+): boolean {
   if (condition === 'default') {
     return true;
   }
 
+  if (isAllCondition(condition)) {
+    return condition.all.every(c => evaluateCondition(c, character, variables));
+  }
+
+  if (isAnyCondition(condition)) {
+    return condition.any.some(c => evaluateCondition(c, character, variables));
+  }
+
+  if (isNotCondition(condition)) {
+    return !evaluateCondition(condition.not, character, variables);
+  }
+
   if (isAttributeCondition(condition)) {
     const value = character.attributes[condition.attribute] ?? 0;
-    switch (condition.op) {
-      case '>': return value > condition.value;
-      case '<': return value < condition.value;
-      case '>=': return value >= condition.value;
-      case '<=': return value <= condition.value;
-      case '==': return value === condition.value;
-      case '!=': return value !== condition.value;
-      default: return false;
-    }
+    return compare(value, condition.op, condition.value);
   }
 
   if (isTraitCondition(condition)) {
@@ -41,13 +156,150 @@ export function evaluateCondition(condition: Condition, character: Character): b
     return hasTrait === shouldHave;
   }
 
+  if (isFlagCondition(condition)) {
+    const isSet = (character.flags ?? []).includes(condition.flag);
+    const shouldBeSet = condition.set !== false; // defaults to true
+    return isSet === shouldBeSet;
+  }
+
+  if (isSelectionCondition(condition)) {
+    const categorySelections = character.selections[condition.category] || [];
+    const isSelected = categorySelections.includes(condition.optionId);
+    const shouldBeSelected = condition.has !== false; // defaults to true
+    return isSelected === shouldBeSelected;
+  }
+
+  if (isCategoryCountCondition(condition)) {
+    const count = (character.selections[condition.categoryCount] || []).length;
+    return compare(count, condition.op, condition.value);
+  }
+
+  if (isFateCondition(condition)) {
+    return compare(character.fate, condition.fate, condition.value);
+  }
+
+  if (isItemCondition(condition)) {
+    const count = countItem(character, condition.item);
+    if (condition.op === undefined || condition.value === undefined) {
+      return count > 0;
+    }
+    return compare(count, condition.op, condition.value);
+  }
+
+  if (isVariableCondition(condition)) {
+    const value = variables[condition.variable];
+    const op = condition.op ?? '==';
+    if (typeof value === 'number' && typeof condition.value === 'number') {
+      return compare(value, op, condition.value);
+    }
+    // Booleans and strings only support equality
+    if (op === '==') return value === condition.value;
+    if (op === '!=') return value !== condition.value;
+    return false;
+  }
+
+  if (isItemTagCondition(condition)) {
+    const hasTag = hasItemTag(character, condition.itemTag);
+    const shouldHave = condition.has !== false; // defaults to true
+    return hasTag === shouldHave;
+  }
+
   return false;
 }
 
+/**
+ * Short human-readable form of a condition, e.g. "strength >= 3 AND NOT trait cowardly"
+ * Used by the editor tools
+ */
+export function describeCondition(condition: Condition): string {
+  if (condition === 'default') {
+    return 'default';
+  }
+
+  // Parenthesize nested groups so precedence stays readable
+  const describeNested = (c: Condition) =>
+    isAllCondition(c) || isAnyCondition(c) ? `(${describeCondition(c)})` : describeCondition(c);
+
+  if (isAllCondition(condition)) return condition.all.map(describeNested).join(' AND ');
+  if (isAnyCondition(condition)) return condition.any.map(describeNested).join(' OR ');
+  if (isNotCondition(condition)) return `NOT ${describeNested(condition.not)}`;
+  if (isAttributeCondition(condition)) return `${condition.attribute} ${condition.op} ${condition.value}`;
+  if (isTraitCondition(condition)) return `${condition.has === false ? 'NOT ' : ''}trait ${condition.trait}`;
+  if (isFlagCondition(condition)) return `flag ${condition.flag} ${condition.set === false ? 'not set' : 'set'}`;
+  if (isSelectionCondition(condition)) {
+    return `${condition.has === false ? 'NOT ' : ''}selected ${condition.optionId} (${condition.category})`;
+  }
+  if (isCategoryCountCondition(condition)) return `${condition.categoryCount} picks ${condition.op} ${condition.value}`;
+  if (isFateCondition(condition)) return `fate ${condition.fate} ${condition.value}`;
+  if (isItemCondition(condition)) {
+    return condition.op === undefined || condition.value === undefined
+      ? `has item ${condition.item}`
+      : `item ${condition.item} ${condition.op} ${condition.value}`;
+  }
+  if (isVariableCondition(condition)) {
+    return `${condition.variable} ${condition.op ?? '=='} ${JSON.stringify(condition.value)}`;
+  }
+  if (isItemTagCondition(condition)) return `${condition.has === false ? 'NOT ' : ''}item tagged ${condition.itemTag}`;
+
+  return JSON.stringify(condition);
+}
+
+// Why a condition passed or failed: the clause, its result, the value it
+// was compared against, and the same for each clause of a group
+export interface ConditionTrace {
+  description: string;
+  passed: boolean;
+  actual?: string;
+  group?: 'all' | 'any' | 'not';
+  children?: ConditionTrace[];
+}
+
+/**
+ * Evaluate a condition and record why it passed or failed
+ * Used by the playtest inspector
+ */
+export function traceCondition(
+  condition: Condition,
+  character: Character,
+  variables: WorldVariables = {}
+): ConditionTrace {
+  const passed = evaluateCondition(condition, character, variables);
+  const trace: ConditionTrace = { description: describeCondition(condition), passed };
+
+  if (isAllCondition(condition)) {
+    trace.group = 'all';
+    trace.children = condition.all.map(c => traceCondition(c, character, variables));
+  } else if (isAnyCondition(condition)) {
+    trace.group = 'any';
+    trace.children = condition.any.map(c => traceCondition(c, character, variables));
+  } else if (isNotCondition(condition)) {
+    trace.group = 'not';
+    trace.children = [traceCondition(condition.not, character, variables)];
+  } else if (isAttributeCondition(condition)) {
+    trace.actual = String(character.attributes[condition.attribute] ?? 0);
+  } else if (isFateCondition(condition)) {
+    trace.actual = String(character.fate);
+  } else if (isItemCondition(condition)) {
+    trace.actual = String(countItem(character, condition.item));
+  } else if (isVariableCondition(condition)) {
+    trace.actual = JSON.stringify(variables[condition.variable]) ?? 'unset';
+  } else if (isCategoryCountCondition(condition)) {
+    trace.actual = String((character.selections[condition.categoryCount] || []).length);
+  }
+
+  return trace;
+}
+
 /**
  * Check if a choice is available to a character
+ * Chance gates draw from the given rng (seeded per scenario visit during play)
  */
-export function isChoiceAvailable(choice: Choice, character: Character): boolean {
+export function isChoiceAvailable(
+  choice: Choice,
+  character: Character,
+  rng: Rng = Math.random,
+  variables: WorldVariables = {}
+): boolean {
   if (!choice.available) {
     return true;
   }
@@ -56,14 +308,14 @@ export function isChoiceAvailable(choice: Choice, character: Character): boolean
 
   // Check random chance first
   if (chance !== undefined) {
-    if (Math.random() > chance) {
+    if (rng() > chance) {
       return false;
     }
   }
 
   // Check requirements
   if (requires) {
-    if (!evaluateCondition(requires as Condition, character)) {
+    if (!evaluateCondition(requires, character, variables)) {
       return false;
     }
   }
@@ -72,21 +324,42 @@ export function isChoiceAvailable(choice: Choice, character: Character): boolean
 }
 
 /**
- * Determine which outcome applies for a choice
- * Returns the first matching outcome's next scenario ID
+ * Find the first outcome whose condition matches the character
  */
-export function resolveOutcome(outcomes: Outcome[], character: Character): string | null {
+export function findOutcome(
+  outcomes: Outcome[],
+  character: Character,
+  variables: WorldVariables = {}
+): Outcome | null {
   for (const outcome of outcomes) {
-    if (evaluateCondition(outcome.condition, character)) {
-      return outcome.next;
+    if (evaluateCondition(outcome.condition, character, variables)) {
+      return outcome;
     }
   }
   return null;
 }
 
+/**
+ * Determine which outcome applies for a choice
+ * Returns the first matching outcome's next scenario ID
+ */
+export function resolveOutcome(
+  outcomes: Outcome[],
+  character: Character,
+  variables: WorldVariables = {}
+): string | null {
+  return findOutcome(outcomes, character, variables)?.next ?? null;
+}
+
 /**
  * Get all available choices for a character in a scenario
+ * Choices are checked in order, so the same rng seed gives the same result
  */
-export function getAvailableChoices(choices: Choice[], character: Character): Choice[] {
-  return choices.filter(choice => isChoiceAvailable(choice, character));
+export function getAvailableChoices(
+  choices: Choice[],
+  character: Character,
+  rng: Rng = Math.random,
+  variables: WorldVariables = {}
+): Choice[] {
+  return choices.filter(choice => isChoiceAvailable(choice, character, rng, variables));
 }
@@ -0,0 +1,76 @@
+import type { Character, ScenarioEffects, WorldVariables } from '../types/game';
+import { addItems, consumeItems, loseItems } from './inventory';
+
+/**
+ * Apply scenario effects to a character
+ * Returns a new character; the input is left untouched
+ */
+export function applyEffects(character: Character, effects: ScenarioEffects | undefined): Character {
+  if (!effects) {
+    return character;
+  }
+
+  // Traits (deduplicated, removals after additions)
+  const traitSet = new Set(character.traits);
+  for (const trait of effects.addTraits ?? []) {
+    traitSet.add(trait);
+  }
+  for (const trait of effects.removeTraits ?? []) {
+    traitSet.delete(trait);
+  }
+
+  // Attributes
+  const attributes = { ...character.attributes };
+  if (effects.attributes) {
+    for (const [attr, value] of Object.entries(effects.attributes)) {
+      attributes[attr] = (attributes[attr] ?? 0) + (value ?? 0);
+    }
+  }
+
+  // Story flags
+  const flagSet = new Set(character.flags ?? []);
+  for (const flag of effects.setFlags ?? []) {
+    flagSet.add(flag);
+  }
+  for (const flag of effects.clearFlags ?? []) {
+    flagSet.delete(flag);
+  }
+
+  // Inventory (gains, then consumption, then losses)
+  let inventory = character.inventory ?? [];
+  if (effects.gainItems) {
+    inventory = addItems(inventory, effects.gainItems);
+  }
+  if (effects.consumeItems) {
+    inventory = consumeItems(inventory, effects.consumeItems);
+  }
+  if (effects.loseItems) {
+    inventory = loseItems(inventory, effects.loseItems);
+  }
+
+  return {
+    ...character,
+    fate: character.fate + (effects.fate ?? 0),
+    attributes,
+    traits: Array.from(traitSet),
+    flags: Array.from(flagSet),
+    inventory,
+  };
+}
+
+/**
+ * Apply scenario effects to world-state variables
+ * Sets happen before increments; increments treat non-number values as 0
+ */
+export function applyVariableEffects(variables: WorldVariables, effects: ScenarioEffects | undefined): WorldVariables {
+  if (!effects?.setVariables && !effects?.incrementVariables) {
+    return variables;
+  }
+
+  const result = { ...variables, ...effects.setVariables };
+  for (const [name, amount] of Object.entries(effects.incrementVariables ?? {})) {
+    const current = result[name];
+    result[name] = (typeof current === 'number' ? current : 0) + amount;
+  }
+  return result;
+}
@@ -0,0 +1,74 @@
+import type { Character, EndingRecord, EndingsCodex, Scenario, ScenarioBundle } from '../types/game';
+
+const STORAGE_KEY = 'inverse-rpg:endings';
+
+/**
+ * Get every ending scenario in the bundle, sorted by title
+ */
+export function getEndings(scenarios: ScenarioBundle): Scenario[] {
+  return Object.values(scenarios)
+    .filter(s => s.isEnding)
+    .sort((a, b) => (a.endingTitle ?? a.id).localeCompare(b.endingTitle ?? b.id));
+}
+
+/**
+ * Record a run reaching an ending
+ * Returns a new codex; the input is left untouched
+ */
+export function recordEnding(codex: EndingsCodex, endingId: string, build: Character): EndingsCodex {
+  const now = new Date().toISOString();
+  const existing = codex[endingId];
+
+  const traitCounts = { ...(existing?.traitCounts ?? {}) };
+  for (const trait of build.traits) {
+    traitCounts[trait] = (traitCounts[trait] ?? 0) + 1;
+  }
+
+  const record: EndingRecord = {
+    endingId,
+    runs: (existing?.runs ?? 0) + 1,
+    firstReachedAt: existing?.firstReachedAt ?? now,
+    lastReachedAt: now,
+    firstBuild: existing?.firstBuild ?? build,
+    lastBuild: build,
+    traitCounts,
+    fateTotal: (existing?.fateTotal ?? 0) + build.fate,
+  };
+
+  return { ...codex, [endingId]: record };
+}
+
+/**
+ * Most common traits among builds that reached an ending
+ */
+export function getTopTraits(record: EndingRecord, limit = 3): { trait: string; runs: number }[] {
+  return Object.entries(record.traitCounts)
+    .map(([trait, runs]) => ({ trait, runs }))
+    .sort((a, b) => b.runs - a.runs || a.trait.localeCompare(b.trait))
+    .slice(0, limit);
+}
+
+/**
+ * Load the endings codex from localStorage
+ */
+export function loadEndingsCodex(): EndingsCodex {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? (JSON.parse(json) as EndingsCodex) : {};
+  } catch (err) {
+    console.error('Failed to read endings codex:', err);
+    return {};
+  }
+}
+
+/**
+ * Write the endings codex to localStorage
+ * Storage errors (quota, private mode) are logged, not thrown
+ */
+export function saveEndingsCodex(codex: EndingsCodex): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(codex));
+  } catch (err) {
+    console.error('Failed to write endings codex:', err);
+  }
+}
@@ -0,0 +1,113 @@
+import type {
+  Character,
+  GameState,
+  Outcome,
+  ScenarioBundle,
+  VariableDeclarations,
+  WorldVariables,
+} from '../types/game';
+import { applyEffects, applyVariableEffects } from './effects';
+import { deriveSeed } from './random';
+
+/**
+ * Initial values for every declared world-state variable
+ */
+export function getDefaultVariables(declarations: VariableDeclarations): WorldVariables {
+  return Object.fromEntries(Object.entries(declarations).map(([name, decl]) => [name, decl.default]));
+}
+
+/**
+ * Start a new playthrough at the given scenario
+ * Applies the start scenario's onEnter effects to the character and variables
+ * Variables start at their declared defaults unless starting values are given
+ */
+export function createGameState(
+  character: Character,
+  startScenarioId: string,
+  scenarios: ScenarioBundle,
+  seed: number,
+  declarations: VariableDeclarations = {},
+  startingVariables: WorldVariables = getDefaultVariables(declarations)
+): GameState {
+  const onEnter = scenarios[startScenarioId]?.onEnter;
+  const runtimeCharacter = applyEffects(character, onEnter);
+  const variables = applyVariableEffects(startingVariables, onEnter);
+  return {
+    character: runtimeCharacter,
+    currentScenarioId: startScenarioId,
+    history: [startScenarioId],
+    seed,
+    variables,
+    timeline: [{ scenarioId: startScenarioId, character: runtimeCharacter, variables }],
+    explored: {},
+  };
+}
+
+/**
+ * Get the seed for the current scenario visit
+ * Derived from the run seed, step number and scenario, so re-rendering the
+ * same visit never re-rolls, and replaying a run with the same seed and
+ * choices gives the same rolls
+ */
+export function getVisitSeed(state: GameState): number {
+  return deriveSeed(state.seed, state.history.length, state.currentScenarioId);
+}
+
+/**
+ * Advance the game by taking an outcome of the choice at choiceIndex
+ * Outcome effects are applied first, then the next scenario's onEnter effects
+ */
+export function advanceGameState(
+  state: GameState,
+  outcome: Outcome,
+  choiceIndex: number,
+  scenarios: ScenarioBundle
+): GameState {
+  const onEnter = scenarios[outcome.next]?.onEnter;
+  const character = applyEffects(applyEffects(state.character, outcome.effects), onEnter);
+  const variables = applyVariableEffects(applyVariableEffects(state.variables, outcome.effects), onEnter);
+
+  // Record the choice on the node we're leaving
+  const timeline = state.timeline.slice(0, -1);
+  const current = state.timeline[state.timeline.length - 1];
+  timeline.push({ ...current, choiceIndex }, { scenarioId: outcome.next, character, variables });
+
+  const taken = state.explored[state.currentScenarioId] ?? [];
+
+  return {
+    ...state,
+    character,
+    variables,
+    currentScenarioId: outcome.next,
+    history: [...state.history, outcome.next],
+    timeline,
+    explored: {
+      ...state.explored,
+      [state.currentScenarioId]: taken.includes(choiceIndex) ? taken : [...taken, choiceIndex],
+    },
+  };
+}
+
+/**
+ * Rewind the game to an earlier point in the timeline
+ * The character is restored as it was on entering that node; explored
+ * branches are kept so the player can see what they've already tried
+ */
+export function rewindGameState(state: GameState, timelineIndex: number): GameState {
+  const entry = state.timeline[timelineIndex];
+  if (!entry || timelineIndex >= state.timeline.length - 1) {
+    return state;
+  }
+
+  return {
+    ...state,
+    character: entry.character,
+    variables: entry.variables,
+    currentScenarioId: entry.scenarioId,
+    history: state.history.slice(0, timelineIndex + 1),
+    timeline: [
+      ...state.timeline.slice(0, timelineIndex),
+      { scenarioId: entry.scenarioId, character: entry.character, variables: entry.variables },
+    ],
+  };
+}
@@ -0,0 +1,62 @@
+import type { Character, CheckTier, Choice, Scenario, WorldVariables } from '../types/game';
+import { findOutcome, traceCondition, type ConditionTrace } from './conditions';
+import { getCheckOdds, hasCheck } from './checks';
+import { createRng } from './random';
+
+// One outcome of a choice, as the inspector sees it
+export interface OutcomeInspection {
+  next: string;
+  condition: ConditionTrace | null; // null = default outcome
+  checkOdds?: Record<CheckTier, number>;
+}
+
+// Why a choice is shown or hidden on this visit, and where it would lead
+export interface ChoiceInspection {
+  choice: Choice;
+  available: boolean;
+  chance?: { roll: number; chance: number; passed: boolean };
+  requires?: ConditionTrace;
+  outcomes: OutcomeInspection[];
+  pickedOutcome: number | null; // Index of the outcome findOutcome picks, null if none match
+}
+
+/**
+ * Explain each choice of a scenario for one visit
+ * Replays the visit's chance rolls in the same order as getAvailableChoices,
+ * so shown/hidden here always matches what the player sees
+ */
+export function inspectChoices(
+  scenario: Scenario,
+  character: Character,
+  variables: WorldVariables,
+  visitSeed: number
+): ChoiceInspection[] {
+  const rng = createRng(visitSeed);
+
+  return scenario.choices.map(choice => {
+    const { requires, chance } = choice.available ?? {};
+
+    // Rolled for every chance-gated choice, even when requires already fails
+    let chanceResult: ChoiceInspection['chance'];
+    if (chance !== undefined) {
+      const roll = rng();
+      chanceResult = { roll, chance, passed: roll <= chance };
+    }
+
+    const requiresTrace = requires ? traceCondition(requires, character, variables) : undefined;
+    const picked = findOutcome(choice.outcomes, character, variables);
+
+    return {
+      choice,
+      available: (chanceResult?.passed ?? true) && (requiresTrace?.passed ?? true),
+      chance: chanceResult,
+      requires: requiresTrace,
+      outcomes: choice.outcomes.map(outcome => ({
+        next: outcome.next,
+        condition: outcome.condition === 'default' ? null : traceCondition(outcome.condition, character, variables),
+        checkOdds: hasCheck(outcome) ? getCheckOdds(outcome, character) : undefined,
+      })),
+      pickedOutcome: picked ? choice.outcomes.indexOf(picked) : null,
+    };
+  });
+}
@@ -0,0 +1,86 @@
+import type { CategoryConfig, Character, InventoryItem, ItemGrant } from '../types/game';
+
+// Category whose picks always become items, even without explicit `items`
+const GEAR_CATEGORY = 'gear';
+
+/**
+ * Add items to an inventory, stacking onto existing entries with the same ID
+ * Returns a new inventory; the input is left untouched
+ */
+export function addItems(inventory: InventoryItem[], grants: ItemGrant[]): InventoryItem[] {
+  const result = inventory.map(item => ({ ...item, tags: [...item.tags] }));
+
+  for (const grant of grants) {
+    const quantity = grant.quantity ?? 1;
+    const existing = result.find(item => item.id === grant.id);
+    if (existing) {
+      existing.quantity += quantity;
+      for (const tag of grant.tags ?? []) {
+        if (!existing.tags.includes(tag)) existing.tags.push(tag);
+      }
+    } else if (quantity > 0) {
+      result.push({
+        id: grant.id,
+        name: grant.name ?? grant.id,
+        quantity,
+        tags: [...(grant.tags ?? [])],
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Use up some of each item; stacks that reach zero are removed
+ */
+export function consumeItems(inventory: InventoryItem[], amounts: Record<string, number>): InventoryItem[] {
+  return inventory
+    .map(item => ({ ...item, quantity: item.quantity - (amounts[item.id] ?? 0) }))
+    .filter(item => item.quantity > 0);
+}
+
+/**
+ * Remove items entirely, whatever their quantity
+ */
+export function loseItems(inventory: InventoryItem[], itemIds: string[]): InventoryItem[] {
+  return inventory.filter(item => !itemIds.includes(item.id));
+}
+
+/**
+ * Total quantity of an item carried (0 if none)
+ */
+export function countItem(character: Character, itemId: string): number {
+  return character.inventory?.find(item => item.id === itemId)?.quantity ?? 0;
+}
+
+/**
+ * Whether any carried item has a tag
+ */
+export function hasItemTag(character: Character, tag: string): boolean {
+  return (character.inventory ?? []).some(item => item.tags.includes(tag));
+}
+
+/**
+ * Give a freshly built character its starting inventory
+ * Any option can grant `items`; gear picks without them become a single
+ * item named after the option
+ */
+export function seedInventory(character: Character, categories: CategoryConfig[]): Character {
+  const grants: ItemGrant[] = [];
+
+  for (const category of categories) {
+    for (const optionId of character.selections[category.id] ?? []) {
+      const option = category.options.find(o => o.id === optionId);
+      if (!option) continue;
+
+      if (option.items) {
+        grants.push(...option.items);
+      } else if (category.id === GEAR_CATEGORY) {
+        grants.push({ id: option.id, name: option.name, tags: [GEAR_CATEGORY] });
+      }
+    }
+  }
+
+  return { ...character, inventory: addItems([], grants) };
+}
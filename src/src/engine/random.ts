@@ -0,0 +1,59 @@
+/**
+ * Deterministic random number generation for playthroughs
+ * A run is identified by a single seed; every scenario visit derives its own
+ * stream from that seed so a run can be replayed exactly from the seed alone.
+ */
+
+// Returns a float in [0, 1), like Math.random
+export type Rng = () => number;
+
+/**
+ * Create a seeded PRNG (mulberry32)
+ */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh 32-bit seed for a new run
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Parse a seed from user input (e.g. a ?seed= URL parameter)
+ * Returns null if the input is not a valid unsigned 32-bit integer
+ */
+export function parseSeed(input: string | null | undefined): number | null {
+  if (!input || !/^\d+$/.test(input.trim())) {
+    return null;
+  }
+  const seed = Number(input.trim());
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/**
+ * Derive a child seed from a parent seed and a list of keys
+ * Same inputs always give the same seed
+ */
+export function deriveSeed(seed: number, ...keys: (string | number)[]): number {
+  let h = (seed ^ 0x9e3779b9) >>> 0;
+  for (const key of keys) {
+    const text = String(key);
+    for (let i = 0; i < text.length; i++) {
+      h = Math.imul(h ^ text.charCodeAt(i), 0x85ebca6b) >>> 0;
+      h = (h ^ (h >>> 13)) >>> 0;
+    }
+    // Separator so ('ab', 'c') and ('a', 'bc') differ
+    h = Math.imul(h ^ 0xff, 0xc2b2ae35) >>> 0;
+  }
+  return (h ^ (h >>> 16)) >>> 0;
+}
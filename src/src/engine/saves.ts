@@ -0,0 +1,308 @@
+import type {
+  AppearanceConfig,
+  AppearanceSelections,
+  CategoryId,
+  CharacterBuilderState,
+  CharacterCreationData,
+  GameState,
+  SaveData,
+  ScenarioBundle,
+  TimelineEntry,
+  VariableDeclarations,
+} from '../types/game';
+import {
+  createInitialBuilderState,
+  recalculateDerivedValues,
+  getAppearanceAxes,
+  getAppearanceEffects,
+  setAppearancePick,
+} from './characterBuilder';
+import { getDefaultVariables, rewindGameState } from './gameState';
+
+export const CURRENT_SAVE_VERSION = 3;
+
+// Slot written automatically on every change
+export const AUTOSAVE_SLOT = 'autosave';
+
+// Slots the player can save into manually
+export const MANUAL_SAVE_SLOTS = ['slot-1', 'slot-2', 'slot-3'];
+
+const STORAGE_PREFIX = 'inverse-rpg:save:';
+
+// Upgrades a save from one format version to the next
+type SaveMigration = (save: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Save format migrations, keyed by the version they upgrade FROM
+ * When SaveData changes shape, bump CURRENT_SAVE_VERSION and add an entry here
+ */
+const MIGRATIONS: Record<number, SaveMigration> = {
+  // v1 -> v2: runs gained a rewindable timeline and explored branches
+  // Earlier snapshots weren't recorded, so every node gets the current character
+  1: (save) => {
+    const gameState = save.gameState as Omit<GameState, 'timeline' | 'explored'> | null;
+    if (!gameState) return save;
+    return {
+      ...save,
+      gameState: {
+        ...gameState,
+        timeline: gameState.history.map(scenarioId => ({ scenarioId, character: gameState.character })),
+        explored: {},
+      },
+    };
+  },
+  // v2 -> v3: runs gained world-state variables
+  // Starts them empty; reconciliation fills in the declared defaults
+  2: (save) => {
+    const gameState = save.gameState as Omit<GameState, 'variables'> | null;
+    if (!gameState) return save;
+    return {
+      ...save,
+      gameState: {
+        ...gameState,
+        variables: {},
+        timeline: gameState.timeline.map(entry => ({ ...entry, variables: {} })),
+      },
+    };
+  },
+};
+
+/**
+ * Bring a raw save up to the current format version
+ * Returns null if the save is from a newer version or can't be migrated
+ */
+function migrateSaveFormat(raw: Record<string, unknown>): SaveData | null {
+  let save = raw;
+  let version = typeof save.version === 'number' ? save.version : 0;
+
+  while (version < CURRENT_SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return null;
+    }
+    save = migrate(save);
+    version += 1;
+    save.version = version;
+  }
+
+  if (version !== CURRENT_SAVE_VERSION) {
+    return null;
+  }
+  return save as unknown as SaveData;
+}
+
+/**
+ * Reconcile a builder state with the current character creation content
+ * Drops picks for options or categories that no longer exist, adds new
+ * categories, and recalculates derived values from the remaining picks
+ */
+function reconcileBuilderState(
+  state: CharacterBuilderState,
+  data: CharacterCreationData,
+  appearanceConfig: AppearanceConfig
+): CharacterBuilderState {
+  const fresh = createInitialBuilderState();
+  const selections = { ...fresh.selections };
+
+  for (const category of data.categories) {
+    const optionIds = new Set(category.options.map(o => o.id));
+    const saved = state.selections?.[category.id] ?? [];
+    selections[category.id] = saved.filter(id => optionIds.has(id)).slice(0, category.maxPicks);
+  }
+
+  // Keep appearance picks that still exist in the appearance config
+  const saved = state.appearanceSelections ?? {};
+  let appearanceSelections: AppearanceSelections = {
+    portraitId: appearanceConfig.portraits.some(p => p.id === saved.portraitId) ? saved.portraitId : undefined,
+  };
+  for (const axis of getAppearanceAxes(saved, appearanceConfig)) {
+    if (axis.options.some(o => o.id === axis.selectedId)) {
+      appearanceSelections = setAppearancePick(appearanceSelections, axis.id, axis.selectedId!);
+    }
+  }
+
+  return recalculateDerivedValues(
+    {
+      ...fresh,
+      name: state.name ?? '',
+      selections,
+      appearanceSelections,
+      appearanceEffects: getAppearanceEffects(appearanceSelections, appearanceConfig),
+    },
+    data
+  );
+}
+
+/**
+ * Reconcile a saved run with the current scenario bundle
+ * Returns null if the run's start scenario no longer exists
+ */
+function reconcileGameState(
+  gameState: GameState,
+  scenarios: ScenarioBundle,
+  data: CharacterCreationData,
+  declarations: VariableDeclarations
+): GameState | null {
+  // If scenarios on the path were removed, rewind to just before the first one
+  const firstMissing = gameState.history.findIndex(id => !scenarios[id]);
+  if (firstMissing === 0) {
+    return null;
+  }
+  if (firstMissing > 0) {
+    gameState = rewindGameState(gameState, firstMissing - 1);
+  }
+
+  // Drop selections for options that were removed from character creation
+  const selections = {} as Record<CategoryId, string[]>;
+  for (const category of data.categories) {
+    const optionIds = new Set(category.options.map(o => o.id));
+    selections[category.id] = (gameState.character.selections?.[category.id] ?? []).filter(id => optionIds.has(id));
+  }
+
+  // Variables declared since the save was made start from their defaults
+  const defaults = getDefaultVariables(declarations);
+  const timeline: TimelineEntry[] = gameState.timeline.map(entry => ({
+    ...entry,
+    variables: { ...defaults, ...entry.variables },
+  }));
+
+  return {
+    ...gameState,
+    character: { ...gameState.character, selections },
+    variables: { ...defaults, ...gameState.variables },
+    timeline,
+  };
+}
+
+/**
+ * Migrate and reconcile a raw save so it can be loaded against current content
+ * Returns null if the save can't be used at all
+ */
+export function migrateSave(
+  raw: unknown,
+  data: CharacterCreationData,
+  appearanceConfig: AppearanceConfig,
+  scenarios: ScenarioBundle,
+  declarations: VariableDeclarations
+): SaveData | null {
+  if (typeof raw !== 'object' || raw === null) {
+    return null;
+  }
+
+  const save = migrateSaveFormat(raw as Record<string, unknown>);
+  if (!save || !save.builderState) {
+    return null;
+  }
+
+  return {
+    ...save,
+    builderState: reconcileBuilderState(save.builderState, data, appearanceConfig),
+    gameState: save.gameState ? reconcileGameState(save.gameState, scenarios, data, declarations) : null,
+  };
+}
+
+/**
+ * Create a save record for the current build and run
+ */
+export function createSave(
+  slotId: string,
+  builderState: CharacterBuilderState,
+  gameState: GameState | null
+): SaveData {
+  return {
+    version: CURRENT_SAVE_VERSION,
+    slotId,
+    savedAt: new Date().toISOString(),
+    builderState,
+    gameState,
+  };
+}
+
+/**
+ * Write a save to localStorage
+ * Storage errors (quota, private mode) are logged, not thrown
+ */
+export function writeSave(save: SaveData): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + save.slotId, JSON.stringify(save));
+  } catch (err) {
+    console.error(`Failed to write save '${save.slotId}':`, err);
+  }
+}
+
+/**
+ * Read the raw (unmigrated) save in a slot, or null if empty or unreadable
+ */
+export function readRawSave(slotId: string): unknown {
+  try {
+    const json = localStorage.getItem(STORAGE_PREFIX + slotId);
+    return json ? JSON.parse(json) : null;
+  } catch (err) {
+    console.error(`Failed to read save '${slotId}':`, err);
+    return null;
+  }
+}
+
+/**
+ * Delete the save in a slot
+ */
+export function deleteSave(slotId: string): void {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + slotId);
+  } catch (err) {
+    console.error(`Failed to delete save '${slotId}':`, err);
+  }
+}
+
+/**
+ * Whether a build has anything worth autosaving: a name, a selection or an appearance pick
+ */
+export function hasBuildProgress(state: CharacterBuilderState): boolean {
+  const { build, skinTone, hairColor, extra, portraitId } = state.appearanceSelections;
+  return (
+    state.name.trim() !== '' ||
+    Object.values(state.selections).some(ids => ids.length > 0) ||
+    Boolean(build || skinTone || hairColor || portraitId) ||
+    Object.keys(extra ?? {}).length > 0
+  );
+}
+
+/**
+ * Load every usable save (autosave first, then manual slots)
+ * An autosave of an untouched build is skipped, so it never prompts a resume
+ */
+export function loadAllSaves(
+  data: CharacterCreationData,
+  appearanceConfig: AppearanceConfig,
+  scenarios: ScenarioBundle,
+  declarations: VariableDeclarations
+): SaveData[] {
+  const saves: SaveData[] = [];
+  for (const slotId of [AUTOSAVE_SLOT, ...MANUAL_SAVE_SLOTS]) {
+    const save = migrateSave(readRawSave(slotId), data, appearanceConfig, scenarios, declarations);
+    if (save && (save.gameState || hasBuildProgress(save.builderState))) {
+      saves.push(save);
+    }
+  }
+  return saves;
+}
+
+/**
+ * Human-readable label for a save slot
+ */
+export function describeSlot(slotId: string): string {
+  if (slotId === AUTOSAVE_SLOT) return 'Autosave';
+  const index = MANUAL_SAVE_SLOTS.indexOf(slotId);
+  return index >= 0 ? `Slot ${index + 1}` : slotId;
+}
+
+/**
+ * One-line summary of a save's progress
+ */
+export function summarizeSave(save: SaveData): string {
+  const name = save.builderState.name.trim() || 'Unnamed character';
+  if (!save.gameState) {
+    return `${name} — creating character`;
+  }
+  return `${name} — step ${save.gameState.history.length}`;
+}
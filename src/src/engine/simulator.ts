@@ -0,0 +1,323 @@
+import type {
+  AppearanceConfig,
+  AppearanceSelections,
+  CategoryConfig,
+  CategoryId,
+  Character,
+  CharacterBuilderState,
+  CharacterCreationData,
+  CheckTier,
+  Choice,
+  GameState,
+  ScenarioBundle,
+  VariableDeclarations,
+} from '../types/game';
+import {
+  createInitialBuilderState,
+  isCategoryFullyLocked,
+  isCharacterComplete,
+  isOptionAvailable,
+  toggleOption,
+  updateAppearanceSelections,
+  getAppearanceAxes,
+  setAppearancePick,
+} from './characterBuilder';
+import { evaluateCondition, findOutcome } from './conditions';
+import { getCheckOdds, getTierTarget, hasCheck } from './checks';
+import { createGameState, advanceGameState } from './gameState';
+import { getStartOdds } from './startSelection';
+import { getChoiceOdds, type DecisionPolicy } from './autoplay';
+import type { Rng } from './random';
+
+// Picks to force in a category (e.g. race: ['halfling'])
+export type FixedPicks = Partial<Record<CategoryId, string[]>>;
+
+// Exact odds of where one character's runs end up
+export interface RunOdds {
+  endings: Record<string, number>; // ending scenario ID -> probability
+  stuck: number; // Reached a node with no available choice or no matching outcome
+  unfinished: number; // Still going after maxSteps
+}
+
+const SIMULATED_NAME = 'Simulated';
+
+/**
+ * All size-k combinations of items, in order
+ */
+function* combinations<T>(items: T[], size: number, start = 0): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - size; i++) {
+    for (const rest of combinations(items, size - 1, i + 1)) {
+      yield [items[i], ...rest];
+    }
+  }
+}
+
+/**
+ * Whether every pick is still allowed by the finished build
+ * Picks are made in category order, so a later pick can't satisfy an earlier requirement
+ */
+function isBuildValid(state: CharacterBuilderState, data: CharacterCreationData): boolean {
+  if (!isCharacterComplete(data, state)) {
+    return false;
+  }
+  return data.categories.every(category =>
+    (state.selections[category.id] ?? []).every(optionId => {
+      const option = category.options.find(o => o.id === optionId);
+      return option !== undefined && isOptionAvailable(option, category, state, data);
+    })
+  );
+}
+
+/**
+ * Options a category may pick from, narrowed to the fixed picks if any
+ */
+function getPickPool(category: CategoryConfig, fixed: FixedPicks) {
+  const forced = fixed[category.id];
+  return forced ? category.options.filter(o => forced.includes(o.id)) : category.options;
+}
+
+/**
+ * Add options to a build one by one, as the player would
+ * Returns null if any of them isn't available (or affordable) when its turn comes
+ */
+function pickOptions(
+  optionIds: string[],
+  category: CategoryConfig,
+  state: CharacterBuilderState,
+  data: CharacterCreationData
+): CharacterBuilderState | null {
+  let result = state;
+  for (const optionId of optionIds) {
+    const option = category.options.find(o => o.id === optionId);
+    if (!option || !isOptionAvailable(option, category, result, data)) {
+      return null;
+    }
+    const next = toggleOption(optionId, category, result, data);
+    if (next === result) {
+      return null; // Refused, e.g. over the point-buy budget
+    }
+    result = next;
+  }
+  return result;
+}
+
+/**
+ * Every valid build, made through the same builder functions as the UI
+ * Categories are filled in order; appearance tries every pick on every
+ * appearance axis (portraits are left unset). The space grows very fast, so
+ * callers should fix some picks or stop early.
+ */
+export function* enumerateBuilds(
+  data: CharacterCreationData,
+  appearanceConfig: AppearanceConfig,
+  fixed: FixedPicks = {}
+): Generator<CharacterBuilderState> {
+  function* fill(index: number, state: CharacterBuilderState): Generator<CharacterBuilderState> {
+    if (index === data.categories.length) {
+      if (isBuildValid(state, data)) yield state;
+      return;
+    }
+
+    const category = data.categories[index];
+
+    if (category.id === 'appearance') {
+      let combos: AppearanceSelections[] = [{}];
+      for (const axis of getAppearanceAxes({}, appearanceConfig)) {
+        if (axis.options.length === 0) continue;
+        combos = combos.flatMap(combo => axis.options.map(o => setAppearancePick(combo, axis.id, o.id)));
+      }
+      for (const selections of combos) {
+        yield* fill(index + 1, updateAppearanceSelections(selections, state, appearanceConfig, data));
+      }
+      return;
+    }
+
+    if (isCategoryFullyLocked(category, state, data)) {
+      yield* fill(index + 1, state);
+      return;
+    }
+
+    const pool = getPickPool(category, fixed).map(o => o.id);
+    const sizes = fixed[category.id]
+      ? [pool.length]
+      : Array.from({ length: category.maxPicks - category.minPicks + 1 }, (_, i) => category.minPicks + i);
+
+    for (const size of sizes) {
+      for (const picks of combinations(pool, size)) {
+        const next = pickOptions(picks, category, state, data);
+        if (next) yield* fill(index + 1, next);
+      }
+    }
+  }
+
+  yield* fill(0, { ...createInitialBuilderState(), name: SIMULATED_NAME });
+}
+
+/**
+ * One random valid build, or null if the random picks led nowhere (try again)
+ * Each category gets a random number of picks between its min and max
+ */
+export function sampleBuild(
+  data: CharacterCreationData,
+  appearanceConfig: AppearanceConfig,
+  rng: Rng,
+  fixed: FixedPicks = {}
+): CharacterBuilderState | null {
+  const pickOne = <T>(items: T[]): T | undefined => items[Math.floor(rng() * items.length)];
+  let state: CharacterBuilderState = { ...createInitialBuilderState(), name: SIMULATED_NAME };
+
+  for (const category of data.categories) {
+    if (category.id === 'appearance') {
+      let selections: AppearanceSelections = {};
+      for (const axis of getAppearanceAxes({}, appearanceConfig)) {
+        const option = pickOne(axis.options);
+        if (option) selections = setAppearancePick(selections, axis.id, option.id);
+      }
+      state = updateAppearanceSelections(selections, state, appearanceConfig, data);
+      continue;
+    }
+
+    if (isCategoryFullyLocked(category, state, data)) {
+      continue;
+    }
+
+    const forced = fixed[category.id];
+    if (forced) {
+      const next = pickOptions(forced, category, state, data);
+      if (!next) return null;
+      state = next;
+      continue;
+    }
+
+    // Shuffle, then take available options until the target count is met
+    const pool = [...category.options];
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    const target = category.minPicks + Math.floor(rng() * (category.maxPicks - category.minPicks + 1));
+
+    let picked = 0;
+    for (const option of pool) {
+      if (picked >= target) break;
+      if (!isOptionAvailable(option, category, state, data)) continue;
+      const next = toggleOption(option.id, category, state, data);
+      if (next !== state) {
+        state = next;
+        picked++;
+      }
+    }
+    if (picked < category.minPicks) {
+      return null;
+    }
+  }
+
+  return isBuildValid(state, data) ? state : null;
+}
+
+/**
+ * Every combination of chance-gated choices showing up, with its probability
+ * A choice with chance c is shown with probability c, independently
+ */
+function getAvailabilityOdds(choices: Choice[]): { choices: Choice[]; probability: number }[] {
+  const gated = choices.filter(c => c.available?.chance !== undefined);
+  const results: { choices: Choice[]; probability: number }[] = [];
+
+  for (let mask = 0; mask < 1 << gated.length; mask++) {
+    let probability = 1;
+    gated.forEach((choice, bit) => {
+      const chance = Math.min(1, Math.max(0, choice.available?.chance ?? 1));
+      probability *= mask & (1 << bit) ? chance : 1 - chance;
+    });
+    if (probability === 0) continue;
+
+    const shown = choices.filter(c => {
+      const bit = gated.indexOf(c);
+      return bit === -1 || (mask & (1 << bit)) !== 0;
+    });
+    results.push({ choices: shown, probability });
+  }
+
+  return results;
+}
+
+/**
+ * Exact odds of a character reaching each ending when a policy plays for them
+ * Walks every branch: start selection, chance gates, the policy's choice
+ * odds and every skill check tier, applying effects as real play does.
+ * With the random policy, any ending with odds above 0 is reachable.
+ */
+export function simulateCharacter(
+  character: Character,
+  scenarios: ScenarioBundle,
+  declarations: VariableDeclarations,
+  policy: DecisionPolicy,
+  maxSteps = 50
+): RunOdds {
+  const odds: RunOdds = { endings: {}, stuck: 0, unfinished: 0 };
+
+  const walk = (state: GameState, probability: number) => {
+    const scenario = scenarios[state.currentScenarioId];
+    if (!scenario) {
+      odds.stuck += probability;
+      return;
+    }
+    if (scenario.isEnding) {
+      odds.endings[scenario.id] = (odds.endings[scenario.id] ?? 0) + probability;
+      return;
+    }
+    if (state.history.length > maxSteps) {
+      odds.unfinished += probability;
+      return;
+    }
+
+    const { character: current, variables } = state;
+    const eligible = scenario.choices.filter(c =>
+      c.available?.requires === undefined || evaluateCondition(c.available.requires, current, variables)
+    );
+
+    for (const shown of getAvailabilityOdds(eligible)) {
+      if (shown.choices.length === 0) {
+        odds.stuck += probability * shown.probability;
+        continue;
+      }
+
+      const choiceOdds = getChoiceOdds(policy, shown.choices, current, variables);
+      shown.choices.forEach((choice, i) => {
+        const p = probability * shown.probability * choiceOdds[i];
+        if (p === 0) return;
+
+        const choiceIndex = scenario.choices.indexOf(choice);
+        const outcome = findOutcome(choice.outcomes, current, variables);
+        if (!outcome) {
+          odds.stuck += p;
+          return;
+        }
+
+        if (hasCheck(outcome)) {
+          for (const [tier, tierOdds] of Object.entries(getCheckOdds(outcome, current))) {
+            if (tierOdds === 0) continue;
+            const next = getTierTarget(outcome, tier as CheckTier);
+            walk(advanceGameState(state, { ...outcome, next }, choiceIndex, scenarios), p * tierOdds);
+          }
+        } else {
+          walk(advanceGameState(state, outcome, choiceIndex, scenarios), p);
+        }
+      });
+    }
+  };
+
+  const starts = getStartOdds(scenarios, character);
+  if (starts.length === 0) {
+    odds.stuck = 1;
+  }
+  for (const { scenario, probability } of starts) {
+    walk(createGameState(character, scenario.id, scenarios, 0, declarations), probability);
+  }
+
+  return odds;
+}
@@ -0,0 +1,94 @@
+import type { Character, Scenario, ScenarioBundle, StartConfig } from '../types/game';
+import { checkRequirement } from './characterBuilder';
+
+// Start nodes without a startConfig are always eligible at full weight
+const DEFAULT_START_CONFIG: StartConfig = {
+  minFate: null,
+  maxFate: null,
+  chance: 100,
+};
+
+/**
+ * Get a start scenario's config with defaults filled in
+ */
+function getStartConfig(scenario: Scenario): StartConfig {
+  return { ...DEFAULT_START_CONFIG, ...scenario.startConfig };
+}
+
+/**
+ * Check if a character qualifies for a start scenario
+ * Fate must fall within [minFate, maxFate] and all requirements must be met
+ */
+export function isStartEligible(scenario: Scenario, character: Character): boolean {
+  if (!scenario.isStart) {
+    return false;
+  }
+
+  const config = getStartConfig(scenario);
+
+  if (config.minFate != null && character.fate < config.minFate) {
+    return false;
+  }
+  if (config.maxFate != null && character.fate > config.maxFate) {
+    return false;
+  }
+
+  if (config.requires) {
+    for (const req of config.requires) {
+      if (!checkRequirement(req, character)) {
+        return false;
+      }
+    }
+  }
+
+  return config.chance > 0;
+}
+
+/**
+ * Get all start scenarios a character qualifies for
+ */
+export function getEligibleStartScenarios(
+  scenarios: ScenarioBundle,
+  character: Character
+): Scenario[] {
+  return Object.values(scenarios).filter(s => isStartEligible(s, character));
+}
+
+/**
+ * Odds of each eligible start scenario being picked for a character
+ * Eligible start nodes are weighted by their startConfig.chance (1-100)
+ */
+export function getStartOdds(
+  scenarios: ScenarioBundle,
+  character: Character
+): { scenario: Scenario; probability: number }[] {
+  const eligible = getEligibleStartScenarios(scenarios, character);
+  const total = eligible.reduce((sum, s) => sum + getStartConfig(s).chance, 0);
+  return eligible.map(scenario => ({ scenario, probability: getStartConfig(scenario).chance / total }));
+}
+
+/**
+ * Pick the opening scenario for a character, weighted as in getStartOdds
+ * Returns null if no start scenario accepts this character
+ */
+export function selectStartScenario(
+  scenarios: ScenarioBundle,
+  character: Character,
+  random: () => number = Math.random
+): string | null {
+  const odds = getStartOdds(scenarios, character);
+  if (odds.length === 0) {
+    return null;
+  }
+
+  let roll = random();
+  for (const { scenario, probability } of odds) {
+    roll -= probability;
+    if (roll < 0) {
+      return scenario.id;
+    }
+  }
+
+  // Floating point edge case: fall back to the last eligible start
+  return odds[odds.length - 1].scenario.id;
+}
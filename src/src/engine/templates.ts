@@ -0,0 +1,212 @@
+import type { CategoryConfig, Character, ConditionExpression, WorldVariables } from '../types/game';
+import { evaluateCondition } from './conditions';
+import { describeAttribute, describeFate } from './characterBuilder';
+
+/*
+ * Template syntax for scenario content.md:
+ *
+ *   {{name}}                  character name
+ *   {{fate}}                  fate descriptor, e.g. "promising"
+ *   {{strength}}              attribute descriptor, e.g. "strong"
+ *   {{race}}                  selected option name(s) in a category, e.g. "Dwarf"
+ *   {{#if dwarf}}...{{/if}}   block shown when the scenario's named condition holds
+ *   {{#if {"trait": "brave"}}}...{{else}}...{{/if}}   inline condition (JSON)
+ *
+ * Keep in sync with the template validation in tools/build-scenarios.js
+ */
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'var'; name: string }
+  | { type: 'if'; condition: string | ConditionExpression; then: TemplateNode[]; else: TemplateNode[] };
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: string[];
+}
+
+// Read a balanced {...} JSON object starting at `start`, returning the index after it
+function scanJsonObject(source: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse content into template nodes
+ * Malformed tags are reported in `errors`; parsing continues past them
+ */
+export function parseTemplate(source: string): ParsedTemplate {
+  const errors: string[] = [];
+  const root: TemplateNode[] = [];
+  // Open #if blocks; `branch` is where nodes are currently appended
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; branch: TemplateNode[] }[] = [];
+  let branch = root;
+  let pos = 0;
+
+  const pushText = (text: string) => {
+    if (text) branch.push({ type: 'text', text });
+  };
+
+  while (pos < source.length) {
+    const open = source.indexOf('{{', pos);
+    if (open === -1) {
+      pushText(source.slice(pos));
+      break;
+    }
+    pushText(source.slice(pos, open));
+
+    let cursor = open + 2;
+    while (source[cursor] === ' ') cursor++;
+
+    if (source.startsWith('#if', cursor)) {
+      cursor += 3;
+      while (source[cursor] === ' ') cursor++;
+
+      let condition: string | ConditionExpression | null = null;
+      if (source[cursor] === '{') {
+        const end = scanJsonObject(source, cursor);
+        const json = end === -1 ? '' : source.slice(cursor, end);
+        try {
+          condition = JSON.parse(json) as ConditionExpression;
+        } catch {
+          errors.push(`invalid JSON condition in {{#if}} at offset ${open}`);
+        }
+        cursor = end === -1 ? source.length : end;
+      } else {
+        const match = /^[\w-]+/.exec(source.slice(cursor));
+        if (match) {
+          condition = match[0];
+          cursor += match[0].length;
+        } else {
+          errors.push(`{{#if}} without a condition at offset ${open}`);
+        }
+      }
+
+      while (source[cursor] === ' ') cursor++;
+      if (!source.startsWith('}}', cursor)) {
+        errors.push(`unclosed {{#if}} tag at offset ${open}`);
+        pushText(source.slice(open));
+        break;
+      }
+      pos = cursor + 2;
+
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', condition: condition ?? '', then: [], else: [] };
+      branch.push(node);
+      stack.push({ node, branch });
+      branch = node.then;
+      continue;
+    }
+
+    const close = source.indexOf('}}', cursor);
+    if (close === -1) {
+      errors.push(`unclosed tag at offset ${open}`);
+      pushText(source.slice(open));
+      break;
+    }
+    const tag = source.slice(cursor, close).trim();
+    pos = close + 2;
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || branch !== top.node.then) {
+        errors.push(`{{else}} outside an {{#if}} block at offset ${open}`);
+      } else {
+        branch = top.node.else;
+      }
+    } else if (tag === '/if') {
+      const top = stack.pop();
+      if (!top) {
+        errors.push(`{{/if}} without a matching {{#if}} at offset ${open}`);
+      } else {
+        branch = top.branch;
+      }
+    } else if (/^[\w-]+$/.test(tag)) {
+      branch.push({ type: 'var', name: tag });
+    } else {
+      errors.push(`unrecognized tag {{${tag}}} at offset ${open}`);
+      pushText(source.slice(open, pos));
+    }
+  }
+
+  if (stack.length > 0) {
+    errors.push(`${stack.length} {{#if}} block(s) missing {{/if}}`);
+  }
+
+  return { nodes: root, errors };
+}
+
+/**
+ * Resolve a {{variable}} against a character
+ * Returns null for names that aren't a known variable
+ */
+function resolveVariable(name: string, character: Character, categories: CategoryConfig[]): string | null {
+  if (name === 'name') return character.name;
+  if (name === 'fate') return describeFate(character.fate).toLowerCase();
+  if (name in character.attributes) {
+    return describeAttribute(character.attributes[name]).toLowerCase();
+  }
+
+  const category = categories.find(c => c.id === name);
+  if (category) {
+    const selected = character.selections[category.id] ?? [];
+    return selected
+      .map(optionId => category.options.find(o => o.id === optionId)?.name ?? optionId)
+      .join(', ');
+  }
+
+  return null;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  character: Character,
+  conditions: Record<string, ConditionExpression>,
+  categories: CategoryConfig[],
+  variables: WorldVariables
+): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.text;
+    } else if (node.type === 'var') {
+      out += resolveVariable(node.name, character, categories) ?? `{{${node.name}}}`;
+    } else {
+      const condition = typeof node.condition === 'string' ? conditions[node.condition] : node.condition;
+      // Unknown named conditions count as false
+      const holds = condition !== undefined && evaluateCondition(condition, character, variables);
+      out += renderNodes(holds ? node.then : node.else, character, conditions, categories, variables);
+    }
+  }
+  return out;
+}
+
+/**
+ * Render scenario content against a character and world-state variables
+ * Content that fails to parse is returned unchanged (the build script reports it)
+ */
+export function renderTemplate(
+  source: string,
+  character: Character,
+  conditions: Record<string, ConditionExpression> | undefined,
+  categories: CategoryConfig[],
+  variables: WorldVariables = {}
+): string {
+  const { nodes, errors } = parseTemplate(source);
+  if (errors.length > 0) return source;
+  return renderNodes(nodes, character, conditions ?? {}, categories, variables);
+}
@@ -9,6 +9,25 @@ export interface Character {
   traits: string[];
   // Track which options were selected (for prerequisites)
   selections: Record<CategoryId, string[]>; // category -> option ids
+  flags?: string[]; // Story flags set by scenario effects during play
+  inventory?: InventoryItem[]; // Carried items, seeded from gear at the start of a run
+}
+
+// A stack of items carried by the character
+export interface InventoryItem {
+  id: string; // e.g. 'rope', 'coin'
+  name: string;
+  quantity: number;
+  tags: string[]; // e.g. 'weapon', 'light'
+}
+
+// Items handed out by a character option or a scenario effect
+// Name and tags default to the item's existing entry (or its ID)
+export interface ItemGrant {
+  id: string;
+  name?: string;
+  quantity?: number; // defaults to 1
+  tags?: string[];
 }
 
 // Core attributes used in the game
@@ -94,10 +113,20 @@ export interface PortraitGenerationRequest {
   races: string[];
 }
 
+// An extra appearance choice defined only in appearanceConfig.json (e.g. eye color, markings)
+// Picked after hair color and optional: appearance is complete without it, and portraits don't depend on it
+export interface AppearanceAxis {
+  id: string; // Key of its pick in AppearanceSelections.extra
+  name: string; // Step label, e.g. "Eye Color"
+  description?: string; // Shown under the step title
+  options: AppearanceOption[];
+}
+
 export interface AppearanceConfig {
   builds: (AppearanceOption & { id: BuildType })[];
   skinTones: (AppearanceOption & { id: SkinTone })[];
   hairColors: (AppearanceOption & { id: HairColor })[];
+  extraAxes?: AppearanceAxis[];
   portraits: Portrait[];
   portraitConfig?: PortraitPromptConfig;
 }
@@ -107,9 +136,17 @@ export interface AppearanceSelections {
   build?: BuildType;
   skinTone?: SkinTone;
   hairColor?: HairColor;
+  extra?: Record<string, string>; // Extra axis ID -> option ID
   portraitId?: string;
 }
 
+// Fate, attribute and trait adjustments from the appearance picks
+export interface AppearanceEffects {
+  fate: number;
+  attributes: Partial<Record<AttributeId, number>>;
+  traits: string[];
+}
+
 // Category IDs
 export type CategoryId =
   | 'sex'
@@ -126,12 +163,23 @@ export type CategoryId =
   | 'gear';
 
 // Requirement for an option to be available
+// Every field that is set must hold; the groups nest, e.g.
+// { attribute: { id: 'strength', op: '>=', value: 2 }, any: [{ trait: 'warrior' }, { trait: 'brawler' }] }
 export interface OptionRequirement {
   trait?: string;
   notTrait?: string;
-  attribute?: { id: AttributeId; op: '>=' | '>' | '<=' | '<'; value: number };
+  attribute?: { id: AttributeId; op: ComparisonOp; value: number };
   selection?: { category: CategoryId; optionId: string };
   notSelection?: { category: CategoryId; optionId: string };
+  all?: OptionRequirement[]; // Every one must be met (AND)
+  any?: OptionRequirement[]; // At least one must be met (OR)
+  not?: OptionRequirement; // Must not be met
+}
+
+// An option in a given category
+export interface OptionRef {
+  category: CategoryId;
+  optionId: string;
 }
 
 // A single option within a category
@@ -145,8 +193,13 @@ export interface CharacterOption {
   attributes?: Partial<Record<AttributeId, number>>; // Attribute adjustments
   traits?: string[]; // Traits to add
   requires?: OptionRequirement[]; // All must be met (AND)
-  incompatibleWith?: string[]; // Option IDs that can't be selected with this
-  isDrawback?: boolean; // Visual indicator for negative options
+  // Options that can't be selected with this: IDs in the same category, or
+  // { category, optionId } for any category. Only one of the pair needs to list the other
+  incompatibleWith?: Array<string | OptionRef>;
+  exclusiveGroups?: string[]; // Exclusivity group IDs (see CharacterCreationData.exclusiveGroups)
+  isDrawback?: boolean; // Visual indicator for negative options; refunds points in point-buy mode
+  cost?: number; // Point-buy cost, overriding the category's optionCost (negative = refund)
+  items?: ItemGrant[]; // Starting inventory (gear without this grants one item named after the option)
 }
 
 // Category configuration
@@ -156,12 +209,32 @@ export interface CategoryConfig {
   description: string;
   minPicks: number;
   maxPicks: number;
+  optionCost?: number; // Point-buy cost of each option without its own cost (default 0)
+  // What happens to this category's picks when a change elsewhere breaks their requirements:
+  // 'remove' drops them (the default), 'block' refuses the change
+  onPrerequisiteLost?: 'remove' | 'block';
   options: CharacterOption[];
 }
 
+// Optional point-buy mode: picks cost points from a fixed budget
+export interface PointBuyConfig {
+  enabled: boolean;
+  budget: number;
+}
+
+// A named set of options, across any categories, of which only a few may be picked
+// e.g. "at most one divine patron"
+export interface ExclusiveGroup {
+  id: string;
+  name: string; // Shown in conflict messages, e.g. "divine patron"
+  maxPicks?: number; // Default 1
+}
+
 // All character creation data
 export interface CharacterCreationData {
   categories: CategoryConfig[];
+  pointBuy?: PointBuyConfig;
+  exclusiveGroups?: ExclusiveGroup[];
 }
 
 // Builder state during character creation
@@ -174,12 +247,23 @@ export interface CharacterBuilderState {
   calculatedFate: number;
   calculatedAttributes: Record<AttributeId, number>;
   calculatedTraits: string[];
+  appearanceEffects?: AppearanceEffects; // Already included in the calculated values above
+  droppedPicks?: DroppedPick[]; // Picks the last change removed because their requirements broke
+}
+
+// A pick removed because a change broke its requirements
+export interface DroppedPick {
+  category: CategoryId;
+  optionId: string;
+  name: string;
 }
 
 // Condition types
+export type ComparisonOp = '>' | '<' | '>=' | '<=' | '==' | '!=';
+
 export interface AttributeCondition {
   attribute: string;
-  op: '>' | '<' | '>=' | '<=' | '==' | '!=';
+  op: ComparisonOp;
   value: number;
 }
 
@@ -188,24 +272,137 @@ export interface TraitCondition {
   has?: boolean; // defaults to true (has the trait)
 }
 
-export type Condition = 'default' | AttributeCondition | TraitCondition;
+export interface FlagCondition {
+  flag: string;
+  set?: boolean; // defaults to true (flag is set)
+}
+
+// Tests a character-creation pick (e.g. the 'avocation-thief' avocation)
+export interface SelectionCondition {
+  category: CategoryId;
+  optionId: string;
+  has?: boolean; // defaults to true (option was selected)
+}
+
+// Tests how many options were picked in a category (e.g. any spells: >= 1)
+export interface CategoryCountCondition {
+  categoryCount: CategoryId;
+  op: ComparisonOp;
+  value: number;
+}
+
+export interface FateCondition {
+  fate: ComparisonOp;
+  value: number;
+}
+
+// Tests how many of an item the character carries (e.g. coin >= 10)
+// Without op/value, tests that the character has at least one
+export interface ItemCondition {
+  item: string;
+  op?: ComparisonOp;
+  value?: number;
+}
+
+// Tests a world-state variable, e.g. millbrook-reputation >= 3
+// Numbers support every op; booleans and strings only == and !=
+export interface VariableCondition {
+  variable: string;
+  op?: ComparisonOp; // defaults to '=='
+  value: VariableValue;
+}
+
+// Tests whether any carried item has a tag (e.g. a 'light' source)
+export interface ItemTagCondition {
+  itemTag: string;
+  has?: boolean; // defaults to true
+}
+
+// Compound conditions (nestable)
+export interface AllCondition {
+  all: ConditionExpression[]; // Every condition must hold (AND)
+}
+
+export interface AnyCondition {
+  any: ConditionExpression[]; // At least one condition must hold (OR)
+}
+
+export interface NotCondition {
+  not: ConditionExpression;
+}
+
+export type ConditionExpression =
+  | AttributeCondition
+  | TraitCondition
+  | FlagCondition
+  | SelectionCondition
+  | CategoryCountCondition
+  | FateCondition
+  | ItemCondition
+  | ItemTagCondition
+  | VariableCondition
+  | AllCondition
+  | AnyCondition
+  | NotCondition;
+
+export type Condition = 'default' | ConditionExpression;
 
 // Availability requirements
 export interface AvailabilityRequirement {
-  requires?: AttributeCondition | TraitCondition;
+  requires?: ConditionExpression;
   chance?: number; // 0.0 to 1.0
 }
 
+// Changes applied to the runtime character during play
+export interface ScenarioEffects {
+  addTraits?: string[];
+  removeTraits?: string[];
+  attributes?: Partial<Record<AttributeId, number>>; // Attribute adjustments
+  fate?: number; // Fate adjustment (+ or -)
+  setFlags?: string[];
+  clearFlags?: string[];
+  gainItems?: ItemGrant[];
+  loseItems?: string[]; // Item IDs removed entirely
+  consumeItems?: Record<string, number>; // item ID -> quantity used up
+  setVariables?: WorldVariables;
+  incrementVariables?: Record<string, number>; // Added to number variables (negative to decrement)
+}
+
+// Dice-based skill check on an outcome, e.g. "2d6 + strength vs 9"
+// Success goes to the outcome's next; failure to check.failure
+export interface SkillCheck {
+  dice: string; // Dice notation, e.g. "2d6" or "1d20+1"
+  attribute: AttributeCondition['attribute']; // Added to the roll
+  difficulty: number; // Total must meet or beat this (before fate shift)
+  fateWeight?: number; // Difficulty shift per point of fate (default 0.25)
+  criticalMargin?: number; // Beat/miss by this much for a critical tier
+  failure: string; // scenario ID
+  criticalSuccess?: string; // scenario ID (defaults to next)
+  criticalFailure?: string; // scenario ID (defaults to failure)
+}
+
+export type CheckTier = 'criticalSuccess' | 'success' | 'failure' | 'criticalFailure';
+
 // Choice and outcome types
 export interface Outcome {
   condition: Condition;
-  next: string; // scenario ID
+  next: string; // scenario ID (on success, if there is a check)
+  check?: SkillCheck;
+  effects?: ScenarioEffects; // Applied before moving to next, whatever the roll
+}
+
+// How well a choice suits a character, used by autoplay's "in character" policy
+export interface ChoiceAffinity {
+  traits?: Record<string, number>; // Added to the score if the character has the trait
+  attributes?: Partial<Record<AttributeId, number>>; // Multiplied by the attribute value
 }
 
 export interface Choice {
   text: string;
   available?: AvailabilityRequirement;
   outcomes: Outcome[];
+  weight?: number; // Author weight for autoplay's weighted policy (default 1)
+  affinity?: ChoiceAffinity;
 }
 
 // ============================================
@@ -236,20 +433,90 @@ export interface StartConfig {
 // Scenario type
 export interface Scenario {
   id: string;
-  content: string; // markdown
+  content: string; // markdown, may contain {{...}} template tags
+  conditions?: Record<string, ConditionExpression>; // Named conditions for {{#if name}} blocks in content
   choices: Choice[];
   isStart?: boolean;
   startConfig?: StartConfig; // Only for start nodes
   isEnding?: boolean;
   endingTitle?: string;
+  onEnter?: ScenarioEffects; // Applied each time the scenario is entered
+}
+
+// Story state tracked across a run (e.g. 'insulted-marta', 'millbrook-reputation')
+export type VariableValue = number | boolean | string;
+export type WorldVariables = Record<string, VariableValue>;
+
+// A variable declared in scenarios/variables.json
+export interface VariableDeclaration {
+  type: 'number' | 'boolean' | 'string';
+  default: VariableValue;
+  description?: string;
+}
+
+export type VariableDeclarations = Record<string, VariableDeclaration>;
+
+// A visited point in a run that can be rewound to
+export interface TimelineEntry {
+  scenarioId: string;
+  character: Character; // Runtime character on entering the scenario
+  variables: WorldVariables; // World state on entering the scenario
+  choiceIndex?: number; // Choice taken from here (unset for the current node)
 }
 
 // Game state
 export interface GameState {
-  character: Character;
+  character: Character; // Runtime character, changed by scenario effects
   currentScenarioId: string;
   history: string[]; // visited scenario IDs
+  seed: number; // Run seed; each visit derives its chance rolls from it
+  variables: WorldVariables; // Story state, starts from the declared defaults
+  timeline: TimelineEntry[]; // One entry per history entry
+  explored: Record<string, number[]>; // scenario ID -> choice indices ever taken (kept across rewinds)
 }
 
 // Scenario bundle (output of build script)
 export type ScenarioBundle = Record<string, Scenario>;
+
+// ============================================
+// SAVE TYPES
+// ============================================
+
+// A persisted playthrough (character build plus run, if one was started)
+export interface SaveData {
+  version: number; // Save format version, see engine/saves.ts migrations
+  slotId: string;
+  savedAt: string; // ISO timestamp
+  builderState: CharacterBuilderState;
+  gameState: GameState | null; // null while still in character creation
+}
+
+// ============================================
+// ENDINGS CODEX TYPES
+// ============================================
+
+// Cross-run record of one ending the player has reached
+export interface EndingRecord {
+  endingId: string;
+  runs: number; // Times this ending was reached
+  firstReachedAt: string; // ISO timestamp
+  lastReachedAt: string; // ISO timestamp
+  firstBuild: Character; // The build that discovered it
+  lastBuild: Character;
+  traitCounts: Record<string, number>; // trait -> runs whose build had it
+  fateTotal: number; // Sum of build fate across runs (for the average)
+}
+
+export type EndingsCodex = Record<string, EndingRecord>; // ending scenario ID -> record
+
+// ============================================
+// PLAYTEST TYPES
+// ============================================
+
+// A ready-made character for the Edit Mode playtest launcher
+export interface PlaytestPreset {
+  id: string;
+  name: string;
+  description: string;
+  character: Character;
+}
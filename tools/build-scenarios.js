@@ -5,9 +5,584 @@
 
 const fs = require('fs');
 const path = require('path');
+const { toDot, toMermaid } = require('./scenario-graph');
 
 const SCENARIOS_DIR = path.join(__dirname, '..', 'scenarios');
 const OUTPUT_FILE = path.join(__dirname, '..', 'src', 'public', 'scenarios.json');
+const CHARACTER_CREATION_FILE = path.join(__dirname, '..', 'src', 'src', 'data', 'characterCreation.json');
+const VARIABLES_FILE = path.join(SCENARIOS_DIR, 'variables.json');
+const VARIABLES_OUTPUT_FILE = path.join(__dirname, '..', 'src', 'public', 'variables.json');
+const REPORT_FILE = path.join(__dirname, '..', 'build', 'scenario-report.json');
+const DOT_FILE = path.join(__dirname, '..', 'build', 'scenarios.dot');
+const MERMAID_FILE = path.join(__dirname, '..', 'build', 'scenarios.mmd');
+
+const ATTRIBUTE_IDS = ['strength', 'agility', 'endurance', 'cunning', 'charisma', 'will'];
+const CONDITION_OPS = ['>', '<', '>=', '<=', '==', '!='];
+const VARIABLE_TYPES = ['number', 'boolean', 'string'];
+
+// Category -> option IDs, used to validate selection conditions
+const CATEGORY_OPTIONS = new Map(
+  JSON.parse(fs.readFileSync(CHARACTER_CREATION_FILE, 'utf-8')).categories
+    .map(category => [category.id, new Set(category.options.map(o => o.id))])
+);
+
+// World-state variable declarations (name -> { type, default, description })
+const VARIABLES = fs.existsSync(VARIABLES_FILE)
+  ? JSON.parse(fs.readFileSync(VARIABLES_FILE, 'utf-8'))
+  : {};
+
+// Where each variable is read (conditions) and written (effects), for the unused-variable report
+const variableReads = new Map();
+const variableWrites = new Map();
+
+function recordVariableUse(uses, name, where) {
+  if (!uses.has(name)) uses.set(name, []);
+  uses.get(name).push(where);
+}
+
+// Validate the variable declarations file
+function validateVariableDeclarations() {
+  const errors = [];
+  for (const [name, decl] of Object.entries(VARIABLES)) {
+    const where = `variables.json ${name}`;
+    if (typeof decl !== 'object' || decl === null || !VARIABLE_TYPES.includes(decl.type)) {
+      errors.push(`${where}: type must be one of ${VARIABLE_TYPES.join(', ')}`);
+    } else if (typeof decl.default !== decl.type) {
+      errors.push(`${where}: default must be a ${decl.type}`);
+    }
+  }
+  return errors;
+}
+
+// Validate a reference to a declared variable, and that a value fits its type
+function validateVariableValue(where, name, value) {
+  const decl = VARIABLES[name];
+  if (!decl) {
+    return [`${where}: undeclared variable '${name}' (declare it in scenarios/variables.json)`];
+  }
+  if (typeof value !== decl.type) {
+    return [`${where}: variable '${name}' is a ${decl.type}, got ${JSON.stringify(value)}`];
+  }
+  return [];
+}
+
+// Validate a start scenario's startConfig (fate range, chance, requirements)
+function validateStartConfig(scenario) {
+  const errors = [];
+  const config = scenario.startConfig;
+  if (!config) return errors;
+
+  const { minFate, maxFate, chance, requires } = config;
+
+  if (minFate != null && typeof minFate !== 'number') {
+    errors.push(`${scenario.id}: startConfig.minFate must be a number or null`);
+  }
+  if (maxFate != null && typeof maxFate !== 'number') {
+    errors.push(`${scenario.id}: startConfig.maxFate must be a number or null`);
+  }
+  if (typeof minFate === 'number' && typeof maxFate === 'number' && minFate > maxFate) {
+    errors.push(`${scenario.id}: startConfig.minFate (${minFate}) is greater than maxFate (${maxFate})`);
+  }
+  // A missing chance defaults to 100 at runtime (DEFAULT_START_CONFIG)
+  if (chance !== undefined && (typeof chance !== 'number' || chance < 1 || chance > 100)) {
+    errors.push(`${scenario.id}: startConfig.chance must be a number from 1 to 100`);
+  }
+  if (requires !== undefined && !Array.isArray(requires)) {
+    errors.push(`${scenario.id}: startConfig.requires must be an array`);
+  } else if (requires) {
+    requires.forEach((req, i) => {
+      errors.push(...validateCondition(`${scenario.id} startConfig.requires[${i}]`, requirementToCondition(req), false));
+    });
+  }
+
+  return errors;
+}
+
+// Rewrite an option requirement (trait/notTrait/attribute/selection/notSelection,
+// all/any/not) as the equivalent condition so validateCondition can check it.
+// Anything unrecognized is passed through for validateCondition to report
+function requirementToCondition(req) {
+  if (typeof req !== 'object' || req === null || Array.isArray(req)) return req;
+  const parts = Object.entries(req).map(([key, value]) => {
+    const ref = value ?? {};
+    switch (key) {
+      case 'trait': return { trait: value };
+      case 'notTrait': return { trait: value, has: false };
+      case 'attribute': return { attribute: ref.id, op: ref.op, value: ref.value };
+      case 'selection': return { category: ref.category, optionId: ref.optionId };
+      case 'notSelection': return { category: ref.category, optionId: ref.optionId, has: false };
+      case 'all':
+      case 'any': return { [key]: Array.isArray(value) ? value.map(requirementToCondition) : value };
+      case 'not': return { not: requirementToCondition(value) };
+      default: return { [key]: value };
+    }
+  });
+  if (parts.length === 0) return req;
+  return parts.length === 1 ? parts[0] : { all: parts };
+}
+
+// Validate the op/value pair of a comparison condition
+function validateComparison(where, op, value) {
+  const errors = [];
+  if (!CONDITION_OPS.includes(op)) {
+    errors.push(`${where}: invalid op '${op}' (expected one of ${CONDITION_OPS.join(' ')})`);
+  }
+  if (typeof value !== 'number') {
+    errors.push(`${where}: comparison value must be a number`);
+  }
+  return errors;
+}
+
+// Validate a condition (recursively for all/any/not groups)
+// Mirrors the Condition union in src/src/types/game.ts
+function validateCondition(where, cond, allowDefault = true) {
+  const errors = [];
+
+  if (cond === 'default') {
+    if (!allowDefault) {
+      errors.push(`${where}: 'default' is only allowed as a top-level outcome condition`);
+    }
+    return errors;
+  }
+  if (typeof cond !== 'object' || cond === null || Array.isArray(cond)) {
+    errors.push(`${where}: condition must be 'default' or an object`);
+    return errors;
+  }
+
+  if ('all' in cond || 'any' in cond) {
+    const key = 'all' in cond ? 'all' : 'any';
+    if (!Array.isArray(cond[key]) || cond[key].length === 0) {
+      errors.push(`${where}: '${key}' must be a non-empty array of conditions`);
+      return errors;
+    }
+    cond[key].forEach((sub, i) => {
+      errors.push(...validateCondition(`${where} ${key}[${i}]`, sub, false));
+    });
+    return errors;
+  }
+
+  if ('not' in cond) {
+    errors.push(...validateCondition(`${where} not`, cond.not, false));
+    return errors;
+  }
+
+  if ('attribute' in cond) {
+    if (!ATTRIBUTE_IDS.includes(cond.attribute)) {
+      errors.push(`${where}: unknown attribute '${cond.attribute}'`);
+    }
+    errors.push(...validateComparison(where, cond.op, cond.value));
+    return errors;
+  }
+
+  if ('trait' in cond) {
+    if (typeof cond.trait !== 'string') {
+      errors.push(`${where}: trait must be a string`);
+    }
+    if (cond.has !== undefined && typeof cond.has !== 'boolean') {
+      errors.push(`${where}: trait condition 'has' must be a boolean`);
+    }
+    return errors;
+  }
+
+  if ('flag' in cond) {
+    if (typeof cond.flag !== 'string') {
+      errors.push(`${where}: flag must be a string`);
+    }
+    if (cond.set !== undefined && typeof cond.set !== 'boolean') {
+      errors.push(`${where}: flag condition 'set' must be a boolean`);
+    }
+    return errors;
+  }
+
+  if ('optionId' in cond) {
+    const options = CATEGORY_OPTIONS.get(cond.category);
+    if (!options) {
+      errors.push(`${where}: unknown category '${cond.category}'`);
+    } else if (!options.has(cond.optionId)) {
+      errors.push(`${where}: unknown option '${cond.optionId}' in category '${cond.category}'`);
+    }
+    if (cond.has !== undefined && typeof cond.has !== 'boolean') {
+      errors.push(`${where}: selection condition 'has' must be a boolean`);
+    }
+    return errors;
+  }
+
+  if ('categoryCount' in cond) {
+    if (!CATEGORY_OPTIONS.has(cond.categoryCount)) {
+      errors.push(`${where}: unknown category '${cond.categoryCount}'`);
+    }
+    errors.push(...validateComparison(where, cond.op, cond.value));
+    return errors;
+  }
+
+  if ('fate' in cond) {
+    errors.push(...validateComparison(where, cond.fate, cond.value));
+    return errors;
+  }
+
+  if ('item' in cond) {
+    if (typeof cond.item !== 'string') {
+      errors.push(`${where}: item must be a string`);
+    }
+    if (cond.op !== undefined || cond.value !== undefined) {
+      errors.push(...validateComparison(where, cond.op, cond.value));
+    }
+    return errors;
+  }
+
+  if ('variable' in cond) {
+    recordVariableUse(variableReads, cond.variable, where);
+    errors.push(...validateVariableValue(where, cond.variable, cond.value));
+    const op = cond.op ?? '==';
+    if (!CONDITION_OPS.includes(op)) {
+      errors.push(`${where}: invalid op '${op}' (expected one of ${CONDITION_OPS.join(' ')})`);
+    } else if (typeof cond.value !== 'number' && op !== '==' && op !== '!=') {
+      errors.push(`${where}: only == and != can compare non-number variables`);
+    }
+    return errors;
+  }
+
+  if ('itemTag' in cond) {
+    if (typeof cond.itemTag !== 'string') {
+      errors.push(`${where}: itemTag must be a string`);
+    }
+    if (cond.has !== undefined && typeof cond.has !== 'boolean') {
+      errors.push(`${where}: item tag condition 'has' must be a boolean`);
+    }
+    return errors;
+  }
+
+  errors.push(`${where}: unrecognized condition ${JSON.stringify(cond)}`);
+  return errors;
+}
+
+// Mirrors parseDice in src/src/engine/checks.ts, which falls back to 2d6 for anything it rejects
+function isValidDice(notation) {
+  if (typeof notation !== 'string') return false;
+  const match = /^\s*(\d*)d(\d+)\s*(?:[+-]\s*\d+)?\s*$/i.exec(notation);
+  if (!match) return false;
+  const count = match[1] ? Number(match[1]) : 1;
+  return count >= 1 && Number(match[2]) >= 2;
+}
+
+// Validate a skill check on an outcome (dice, attribute, difficulty, tier links)
+function validateCheck(where, check, allIds) {
+  const errors = [];
+  if (typeof check !== 'object' || check === null || Array.isArray(check)) {
+    errors.push(`${where}: check must be an object`);
+    return errors;
+  }
+
+  if (!isValidDice(check.dice)) {
+    errors.push(`${where}: check.dice must be dice notation like '2d6' or '1d20+1' (at least 1 die of 2+ sides)`);
+  }
+  if (!ATTRIBUTE_IDS.includes(check.attribute)) {
+    errors.push(`${where}: check has unknown attribute '${check.attribute}'`);
+  }
+  for (const key of ['difficulty', 'fateWeight', 'criticalMargin']) {
+    if ((key === 'difficulty' || check[key] !== undefined) && typeof check[key] !== 'number') {
+      errors.push(`${where}: check.${key} must be a number`);
+    }
+  }
+  if (!check.failure) {
+    errors.push(`${where}: check.failure is required`);
+  }
+  for (const key of ['failure', 'criticalSuccess', 'criticalFailure']) {
+    if (check[key] && !allIds.has(check[key])) {
+      errors.push(`${where}: broken check.${key} link to '${check[key]}'`);
+    }
+  }
+
+  return errors;
+}
+
+// Validate autoplay hints on a choice (weight and affinity)
+function validateChoiceHints(where, choice) {
+  const errors = [];
+
+  if (choice.weight !== undefined && (typeof choice.weight !== 'number' || choice.weight < 0)) {
+    errors.push(`${where}: weight must be a non-negative number`);
+  }
+
+  const affinity = choice.affinity;
+  if (affinity === undefined) return errors;
+  if (typeof affinity !== 'object' || affinity === null || Array.isArray(affinity)) {
+    errors.push(`${where}: affinity must be an object`);
+    return errors;
+  }
+  for (const [trait, weight] of Object.entries(affinity.traits ?? {})) {
+    if (typeof weight !== 'number') {
+      errors.push(`${where}: affinity.traits.${trait} must be a number`);
+    }
+  }
+  for (const [attr, weight] of Object.entries(affinity.attributes ?? {})) {
+    if (!ATTRIBUTE_IDS.includes(attr)) {
+      errors.push(`${where}: affinity has unknown attribute '${attr}'`);
+    } else if (typeof weight !== 'number') {
+      errors.push(`${where}: affinity.attributes.${attr} must be a number`);
+    }
+  }
+
+  return errors;
+}
+
+// Validate an effects block (outcome effects or scenario onEnter)
+function validateEffects(where, effects) {
+  const errors = [];
+  if (typeof effects !== 'object' || effects === null || Array.isArray(effects)) {
+    errors.push(`${where}: effects must be an object`);
+    return errors;
+  }
+
+  for (const key of ['addTraits', 'removeTraits', 'setFlags', 'clearFlags', 'loseItems']) {
+    if (effects[key] !== undefined &&
+        (!Array.isArray(effects[key]) || !effects[key].every(v => typeof v === 'string'))) {
+      errors.push(`${where}: effects.${key} must be an array of strings`);
+    }
+  }
+  if (effects.fate !== undefined && typeof effects.fate !== 'number') {
+    errors.push(`${where}: effects.fate must be a number`);
+  }
+  if (effects.attributes !== undefined) {
+    for (const [attr, value] of Object.entries(effects.attributes)) {
+      if (typeof value !== 'number') {
+        errors.push(`${where}: effects.attributes.${attr} must be a number`);
+      }
+    }
+  }
+  if (effects.gainItems !== undefined) {
+    if (!Array.isArray(effects.gainItems)) {
+      errors.push(`${where}: effects.gainItems must be an array`);
+    } else {
+      effects.gainItems.forEach((grant, i) => {
+        if (typeof grant?.id !== 'string') {
+          errors.push(`${where}: effects.gainItems[${i}].id must be a string`);
+        }
+        if (grant?.quantity !== undefined && (!Number.isInteger(grant.quantity) || grant.quantity < 1)) {
+          errors.push(`${where}: effects.gainItems[${i}].quantity must be a positive integer`);
+        }
+        if (grant?.tags !== undefined &&
+            (!Array.isArray(grant.tags) || !grant.tags.every(t => typeof t === 'string'))) {
+          errors.push(`${where}: effects.gainItems[${i}].tags must be an array of strings`);
+        }
+      });
+    }
+  }
+  for (const [name, value] of Object.entries(effects.setVariables ?? {})) {
+    recordVariableUse(variableWrites, name, where);
+    errors.push(...validateVariableValue(`${where} setVariables`, name, value));
+  }
+  for (const [name, amount] of Object.entries(effects.incrementVariables ?? {})) {
+    recordVariableUse(variableWrites, name, where);
+    errors.push(...validateVariableValue(`${where} incrementVariables`, name, amount));
+  }
+  if (effects.consumeItems !== undefined) {
+    for (const [item, quantity] of Object.entries(effects.consumeItems)) {
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        errors.push(`${where}: effects.consumeItems.${item} must be a positive integer`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Validate {{...}} template tags in content.md
+// Mirrors parseTemplate in src/src/engine/templates.ts
+function validateTemplate(id, content, namedConditions) {
+  const errors = [];
+  const variables = new Set(['name', 'fate', ...ATTRIBUTE_IDS, ...CATEGORY_OPTIONS.keys()]);
+  const where = `${id} content.md`;
+  // One entry per open #if block: whether its {{else}} has been seen
+  const open = [];
+  let pos = 0;
+
+  while (pos < content.length) {
+    const start = content.indexOf('{{', pos);
+    if (start === -1) break;
+    const line = content.slice(0, start).split('\n').length;
+    let cursor = start + 2;
+    while (content[cursor] === ' ') cursor++;
+
+    if (content.startsWith('#if', cursor)) {
+      cursor += 3;
+      while (content[cursor] === ' ') cursor++;
+
+      if (content[cursor] === '{') {
+        // Inline JSON condition: scan to the matching brace
+        let depth = 0;
+        let inString = false;
+        let end = -1;
+        for (let i = cursor; i < content.length && end === -1; i++) {
+          const ch = content[i];
+          if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+          } else if (ch === '"') inString = true;
+          else if (ch === '{') depth++;
+          else if (ch === '}' && --depth === 0) end = i + 1;
+        }
+        try {
+          const cond = JSON.parse(end === -1 ? '' : content.slice(cursor, end));
+          errors.push(...validateCondition(`${where}:${line} {{#if}}`, cond, false));
+        } catch {
+          errors.push(`${where}:${line}: invalid JSON condition in {{#if}}`);
+        }
+        cursor = end === -1 ? content.length : end;
+      } else {
+        const match = /^[\w-]+/.exec(content.slice(cursor));
+        if (!match) {
+          errors.push(`${where}:${line}: {{#if}} without a condition`);
+        } else {
+          if (!namedConditions || !(match[0] in namedConditions)) {
+            errors.push(`${where}:${line}: unknown named condition '${match[0]}' (declare it under "conditions" in config.json)`);
+          }
+          cursor += match[0].length;
+        }
+      }
+
+      while (content[cursor] === ' ') cursor++;
+      if (!content.startsWith('}}', cursor)) {
+        errors.push(`${where}:${line}: unclosed {{#if}} tag`);
+        break;
+      }
+      open.push(false);
+      pos = cursor + 2;
+      continue;
+    }
+
+    const close = content.indexOf('}}', cursor);
+    if (close === -1) {
+      errors.push(`${where}:${line}: unclosed tag`);
+      break;
+    }
+    const tag = content.slice(cursor, close).trim();
+    pos = close + 2;
+
+    if (tag === 'else') {
+      if (open.length === 0 || open[open.length - 1]) {
+        errors.push(`${where}:${line}: {{else}} outside an {{#if}} block`);
+      } else {
+        open[open.length - 1] = true;
+      }
+    } else if (tag === '/if') {
+      if (open.length === 0) {
+        errors.push(`${where}:${line}: {{/if}} without a matching {{#if}}`);
+      } else {
+        open.pop();
+      }
+    } else if (!variables.has(tag)) {
+      errors.push(`${where}:${line}: unknown template variable {{${tag}}}`);
+    }
+  }
+
+  if (open.length > 0) {
+    errors.push(`${where}: ${open.length} {{#if}} block(s) missing {{/if}}`);
+  }
+
+  return errors;
+}
+
+// Scenario IDs an outcome can lead to (its next, plus any check tier links)
+function getOutcomeTargets(outcome) {
+  const targets = [outcome.next];
+  if (outcome.check) {
+    targets.push(outcome.check.failure, outcome.check.criticalSuccess, outcome.check.criticalFailure);
+  }
+  return targets.filter(Boolean);
+}
+
+// Whether a choice can be hidden from some character on some visit
+function isChoiceGated(choice) {
+  const available = choice.available;
+  if (!available) return false;
+  return available.requires !== undefined || (available.chance !== undefined && available.chance < 1);
+}
+
+// Static graph analysis: problems a player could actually run into
+// Each issue is { type, scenario, choice?, message } for the machine-readable report
+function analyzeScenarios(scenarios) {
+  const issues = [];
+
+  // Unreachable: not linked (directly or through checks) from any start
+  const reachable = new Set();
+  const queue = Object.values(scenarios).filter(s => s.isStart).map(s => s.id);
+  while (queue.length > 0) {
+    const id = queue.shift();
+    if (reachable.has(id) || !scenarios[id]) continue;
+    reachable.add(id);
+    for (const choice of scenarios[id].choices ?? []) {
+      for (const outcome of choice.outcomes ?? []) {
+        queue.push(...getOutcomeTargets(outcome));
+      }
+    }
+  }
+  for (const id of Object.keys(scenarios)) {
+    if (!reachable.has(id)) {
+      issues.push({ type: 'unreachable', scenario: id, message: `${id}: not reachable from any start scenario` });
+    }
+  }
+
+  for (const [id, scenario] of Object.entries(scenarios)) {
+    if (scenario.isEnding) continue;
+    const choices = scenario.choices ?? [];
+
+    // Dead end: the player is stuck with nothing to click
+    if (choices.length === 0) {
+      issues.push({ type: 'dead-end', scenario: id, message: `${id}: not an ending but has no choices` });
+      continue;
+    }
+
+    choices.forEach((choice, index) => {
+      const outcomes = choice.outcomes ?? [];
+      const defaultIndex = outcomes.findIndex(o => o.condition === 'default');
+
+      // No fallback: resolveOutcome returns null when no condition matches
+      if (defaultIndex === -1) {
+        issues.push({
+          type: 'missing-default',
+          scenario: id,
+          choice: index,
+          message: `${id} "${choice.text}": no 'default' outcome, so some characters get no outcome`,
+        });
+      } else if (defaultIndex < outcomes.length - 1) {
+        // Outcomes are tried in order, so anything after the default never fires
+        issues.push({
+          type: 'shadowed-outcome',
+          scenario: id,
+          choice: index,
+          message: `${id} "${choice.text}": outcomes after the 'default' can never be chosen`,
+        });
+      }
+    });
+
+    // Every choice gated: ScenarioPlayer shows "No available choices"
+    if (choices.every(isChoiceGated)) {
+      issues.push({
+        type: 'all-choices-gated',
+        scenario: id,
+        message: `${id}: every choice has a requirement or chance gate, so a character can be left with none`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Write the machine-readable build report
+function writeReport(report) {
+  fs.mkdirSync(path.dirname(REPORT_FILE), { recursive: true });
+  fs.writeFileSync(REPORT_FILE, JSON.stringify(report, null, 2));
+  console.log(`✓ Wrote analysis report to ${REPORT_FILE}`);
+}
+
+// Write the scenario graph for Graphviz and Mermaid
+function writeGraphs(scenarios) {
+  fs.mkdirSync(path.dirname(DOT_FILE), { recursive: true });
+  fs.writeFileSync(DOT_FILE, toDot(scenarios));
+  fs.writeFileSync(MERMAID_FILE, toMermaid(scenarios));
+  console.log(`✓ Wrote scenario graph to ${DOT_FILE} and ${MERMAID_FILE}`);
+}
 
 function buildScenarios() {
   const scenarios = {};
@@ -61,25 +636,76 @@ function buildScenarios() {
   const allIds = new Set(Object.keys(scenarios));
 
   for (const [id, scenario] of Object.entries(scenarios)) {
+    for (const [name, cond] of Object.entries(scenario.conditions ?? {})) {
+      errors.push(...validateCondition(`${id} conditions.${name}`, cond, false));
+    }
+    errors.push(...validateTemplate(id, scenario.content, scenario.conditions));
+
+    if (scenario.onEnter) {
+      errors.push(...validateEffects(`${id} onEnter`, scenario.onEnter));
+    }
+
     if (!scenario.choices) continue;
 
     for (const choice of scenario.choices) {
+      if (choice.available && choice.available.requires !== undefined) {
+        errors.push(...validateCondition(`${id} "${choice.text}" requires`, choice.available.requires, false));
+      }
+      errors.push(...validateChoiceHints(`${id} "${choice.text}"`, choice));
+
       if (!choice.outcomes) continue;
 
       for (const outcome of choice.outcomes) {
+        errors.push(...validateCondition(`${id} -> ${outcome.next} condition`, outcome.condition));
         if (outcome.next && !allIds.has(outcome.next)) {
           errors.push(`${id}: broken link to '${outcome.next}'`);
         }
+        if (outcome.effects) {
+          errors.push(...validateEffects(`${id} -> ${outcome.next}`, outcome.effects));
+        }
+        if (outcome.check !== undefined) {
+          errors.push(...validateCheck(`${id} -> ${outcome.next}`, outcome.check, allIds));
+        }
       }
     }
   }
 
-  // Find start scenario
+  // Find start scenarios (multiple allowed, selected at runtime by startConfig)
   const startScenarios = Object.values(scenarios).filter(s => s.isStart);
   if (startScenarios.length === 0) {
     errors.push('No scenario marked with isStart: true');
-  } else if (startScenarios.length > 1) {
-    errors.push(`Multiple start scenarios: ${startScenarios.map(s => s.id).join(', ')}`);
+  }
+
+  for (const scenario of startScenarios) {
+    errors.push(...validateStartConfig(scenario));
+  }
+
+  for (const scenario of Object.values(scenarios)) {
+    if (scenario.startConfig && !scenario.isStart) {
+      errors.push(`${scenario.id}: startConfig set but isStart is not true`);
+    }
+  }
+
+  // Variables: declarations, and reads that no effect ever writes (always the default)
+  errors.push(...validateVariableDeclarations());
+  const warnings = [];
+  for (const [name, reads] of variableReads) {
+    if (!variableWrites.has(name)) {
+      warnings.push(`variable '${name}' is read but never written (read at ${reads.join('; ')})`);
+    }
+  }
+
+  // Reachability and dead ends
+  console.log('\nAnalyzing scenario graph...');
+  const issues = analyzeScenarios(scenarios);
+  if (issues.length > 0) {
+    console.log('\n⚠ Analysis issues:');
+    issues.forEach(issue => console.log(`  - [${issue.type}] ${issue.message}`));
+  }
+
+  if (warnings.length > 0) {
+    console.log('\n⚠ Warnings:');
+    warnings.forEach(w => console.log(`  - ${w}`));
   }
 
   // Report errors
@@ -98,7 +724,22 @@ function buildScenarios() {
   fs.writeFileSync(OUTPUT_FILE, JSON.stringify(scenarios, null, 2));
   console.log(`\n✓ Built ${Object.keys(scenarios).length} scenarios to ${OUTPUT_FILE}`);
 
-  return errors.length === 0;
+  fs.writeFileSync(VARIABLES_OUTPUT_FILE, JSON.stringify(VARIABLES, null, 2));
+  console.log(`✓ Wrote ${Object.keys(VARIABLES).length} variable declarations to ${VARIABLES_OUTPUT_FILE}`);
+
+  writeGraphs(scenarios);
+
+  const success = errors.length === 0 && issues.length === 0;
+  writeReport({
+    success,
+    builtAt: new Date().toISOString(),
+    scenarioCount: Object.keys(scenarios).length,
+    errors,
+    warnings,
+    issues,
+  });
+
+  return success;
 }
 
 const success = buildScenarios();
@@ -0,0 +1,198 @@
+/**
+ * Scenario graph export: renders a compiled scenario bundle as Graphviz DOT
+ * and Mermaid flowcharts. Used by build-scenarios.js.
+ *
+ * Nodes are styled by type (start, ending, ordinary). Edges are labeled with
+ * the choice text plus a summary of the outcome condition; choices behind a
+ * requirement are dashed, chance-gated choices are dotted, and skill-check
+ * failure edges are red.
+ */
+
+const MAX_LABEL_LENGTH = 40;
+
+const EDGE_COLORS = {
+  plain: '#555555',
+  requires: '#2980b9',
+  chance: '#e67e22',
+  failure: '#c0392b',
+};
+
+// Short text form of a condition, e.g. "strength >= 3 & !cowardly"
+function summarizeCondition(cond) {
+  if (cond === 'default' || cond == null) return '';
+  if ('all' in cond) return cond.all.map(c => wrapCompound(c)).join(' & ');
+  if ('any' in cond) return cond.any.map(c => wrapCompound(c)).join(' | ');
+  if ('not' in cond) return `!${wrapCompound(cond.not)}`;
+  if ('attribute' in cond) return `${cond.attribute} ${cond.op} ${cond.value}`;
+  if ('trait' in cond) return cond.has === false ? `!${cond.trait}` : cond.trait;
+  if ('flag' in cond) return cond.set === false ? `!flag:${cond.flag}` : `flag:${cond.flag}`;
+  if ('optionId' in cond) return `${cond.category}${cond.has === false ? '!=' : '='}${cond.optionId}`;
+  if ('categoryCount' in cond) return `#${cond.categoryCount} ${cond.op} ${cond.value}`;
+  if ('fate' in cond) return `fate ${cond.fate} ${cond.value}`;
+  if ('item' in cond) return cond.op ? `${cond.item} ${cond.op} ${cond.value}` : `has ${cond.item}`;
+  if ('itemTag' in cond) return cond.has === false ? `!tag:${cond.itemTag}` : `tag:${cond.itemTag}`;
+  if ('variable' in cond) return `${cond.variable} ${cond.op ?? '=='} ${JSON.stringify(cond.value)}`;
+  return JSON.stringify(cond);
+}
+
+// Parenthesize nested groups so precedence stays readable
+function wrapCompound(cond) {
+  const text = summarizeCondition(cond);
+  return typeof cond === 'object' && ('all' in cond || 'any' in cond) ? `(${text})` : text;
+}
+
+function truncate(text) {
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+}
+
+// Title for a node: ending title, else the first markdown heading, else its ID
+function getNodeTitle(scenario) {
+  if (scenario.endingTitle) return scenario.endingTitle;
+  const heading = /^#+\s+(.+)$/m.exec(scenario.content ?? '');
+  return heading ? heading[1].trim() : scenario.id;
+}
+
+function getNodeType(scenario) {
+  if (scenario.isStart) return 'start';
+  if (scenario.isEnding) return 'ending';
+  return 'ordinary';
+}
+
+/**
+ * Flatten the bundle into edges, one per outcome (plus check tier links)
+ * gate: 'requires' | 'chance' | null — how the choice can be hidden
+ */
+function collectEdges(scenarios) {
+  const edges = [];
+
+  for (const scenario of Object.values(scenarios)) {
+    for (const choice of scenario.choices ?? []) {
+      const available = choice.available ?? {};
+      const gate = available.chance !== undefined && available.chance < 1
+        ? 'chance'
+        : available.requires !== undefined ? 'requires' : null;
+
+      const gateNotes = [];
+      if (available.requires !== undefined) gateNotes.push(`requires ${summarizeCondition(available.requires)}`);
+      if (available.chance !== undefined && available.chance < 1) gateNotes.push(`${Math.round(available.chance * 100)}%`);
+
+      for (const outcome of choice.outcomes ?? []) {
+        const notes = [...gateNotes];
+        const condition = summarizeCondition(outcome.condition);
+        if (condition) notes.push(`if ${condition}`);
+
+        const base = { from: scenario.id, text: truncate(choice.text), gate };
+        if (outcome.check) {
+          const check = outcome.check;
+          const roll = `${check.dice} + ${check.attribute} vs ${check.difficulty}`;
+          edges.push({ ...base, to: outcome.next, notes: [...notes, `${roll} succeeds`], failure: false });
+          edges.push({ ...base, to: check.failure, notes: [...notes, `${roll} fails`], failure: true });
+          if (check.criticalSuccess) {
+            edges.push({ ...base, to: check.criticalSuccess, notes: [...notes, 'critical success'], failure: false });
+          }
+          if (check.criticalFailure) {
+            edges.push({ ...base, to: check.criticalFailure, notes: [...notes, 'critical failure'], failure: true });
+          }
+        } else {
+          edges.push({ ...base, to: outcome.next, notes, failure: false });
+        }
+      }
+    }
+  }
+
+  return edges.filter(e => scenarios[e.to]);
+}
+
+function getEdgeColor(edge) {
+  if (edge.failure) return EDGE_COLORS.failure;
+  if (edge.gate) return EDGE_COLORS[edge.gate];
+  return EDGE_COLORS.plain;
+}
+
+// ---------- Graphviz DOT ----------
+
+const DOT_NODE_STYLES = {
+  start: 'shape=doubleoctagon, style=filled, fillcolor="#d5f5e3"',
+  ending: 'shape=doublecircle, style=filled, fillcolor="#fdebd0"',
+  ordinary: 'shape=box, style="rounded,filled", fillcolor="#eaf2f8"',
+};
+
+const dotString = text =>
+  `"${String(text).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+/**
+ * Render the bundle as a Graphviz DOT digraph
+ */
+function toDot(scenarios) {
+  const lines = [
+    'digraph scenarios {',
+    '  rankdir=LR;',
+    '  node [fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+    '',
+  ];
+
+  for (const scenario of Object.values(scenarios)) {
+    const label = `${getNodeTitle(scenario)}\n(${scenario.id})`;
+    lines.push(`  ${dotString(scenario.id)} [label=${dotString(label)}, ${DOT_NODE_STYLES[getNodeType(scenario)]}];`);
+  }
+  lines.push('');
+
+  for (const edge of collectEdges(scenarios)) {
+    const label = [edge.text, ...edge.notes].join('\n');
+    const style = edge.gate === 'chance' ? 'dotted' : edge.gate === 'requires' ? 'dashed' : 'solid';
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)} ` +
+      `[label=${dotString(label)}, style=${style}, color="${getEdgeColor(edge)}"];`
+    );
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+// ---------- Mermaid ----------
+
+// Mermaid node IDs can't contain every character scenario IDs can
+const mermaidId = id => `n_${id.replace(/\W/g, '_')}`;
+const mermaidText = text => String(text).replace(/"/g, '#quot;');
+
+const MERMAID_NODE_SHAPES = {
+  start: label => `(["${label}"])`,
+  ending: label => `((("${label}")))`,
+  ordinary: label => `["${label}"]`,
+};
+
+/**
+ * Render the bundle as a Mermaid flowchart
+ */
+function toMermaid(scenarios) {
+  const lines = ['flowchart LR'];
+
+  for (const scenario of Object.values(scenarios)) {
+    const type = getNodeType(scenario);
+    const label = mermaidText(`${getNodeTitle(scenario)}<br/><small>${scenario.id}</small>`);
+    lines.push(`  ${mermaidId(scenario.id)}${MERMAID_NODE_SHAPES[type](label)}:::${type}`);
+  }
+
+  const linkStyles = [];
+  collectEdges(scenarios).forEach((edge, index) => {
+    const label = mermaidText([edge.text, ...edge.notes].join('<br/>'));
+    const arrow = edge.gate ? '-.->' : '-->';
+    lines.push(`  ${mermaidId(edge.from)} ${arrow}|"${label}"| ${mermaidId(edge.to)}`);
+    if (edge.gate || edge.failure) {
+      linkStyles.push(`  linkStyle ${index} stroke:${getEdgeColor(edge)}`);
+    }
+  });
+
+  lines.push(
+    ...linkStyles,
+    '  classDef start fill:#d5f5e3,stroke:#27ae60',
+    '  classDef ending fill:#fdebd0,stroke:#e67e22',
+    '  classDef ordinary fill:#eaf2f8,stroke:#2980b9',
+    ''
+  );
+  return lines.join('\n');
+}
+
+module.exports = { toDot, toMermaid, summarizeCondition };
@@ -0,0 +1,232 @@
+/**
+ * Twee 3 conversion: turns scenario folders into Twee 3 source for Twine,
+ * and Twee source back into scenario folders. Used by twee.js.
+ *
+ * Each scenario is one passage named after its ID. The passage text is the
+ * scenario's content.md followed by one link per choice, pointing at the
+ * choice's first outcome. Start and ending scenarios are tagged `start` and
+ * `ending`. Everything else in config.json (conditions, effects, checks,
+ * further outcomes...) rides along in the passage metadata, next to the
+ * Twine map position, so a story survives the trip in both directions.
+ *
+ * On import, the passage name, tags, text and links win over the metadata:
+ * renamed link text, retargeted links, new links and new passages are all
+ * picked up. Links are matched to the metadata's choices by text first,
+ * then by position. Twine itself only keeps a passage's position and size
+ * when it re-exports a story, so a passage without scenario metadata falls
+ * back to the scenario's current config.json.
+ */
+
+const crypto = require('crypto');
+
+const STORY_TITLE = 'Inverse RPG';
+const STORY_FORMAT = { format: 'Chapbook', 'format-version': '2.2.0' };
+const SPECIAL_PASSAGES = ['StoryTitle', 'StoryData'];
+
+// Twine identifies a story by its IFID; derive it from the title so every export matches
+function storyIfid(title) {
+  const hex = crypto.createHash('sha1').update(title).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [hex.slice(0, 8), hex.slice(8, 12), `4${hex.slice(13, 16)}`, `${variant}${hex.slice(17, 20)}`, hex.slice(20, 32)]
+    .join('-')
+    .toUpperCase();
+}
+
+// Passage names and tags escape the characters Twee uses for its header syntax
+function escapeName(text) {
+  return text.replace(/[\\[\]{}]/g, '\\$&');
+}
+
+function unescapeName(text) {
+  return text.replace(/\\(.)/g, '$1');
+}
+
+// A text line starting with "::" would read as a new passage header
+function escapeText(text) {
+  return text.replace(/^::/gm, '\\::');
+}
+
+function unescapeText(text) {
+  return text.replace(/^\\::/gm, '::');
+}
+
+function formatLink(text, target) {
+  return text === target ? `[[${target}]]` : `[[${text}->${target}]]`;
+}
+
+// Every Twine link syntax: [[text->target]], [[target<-text]], [[text|target]], [[target]]
+function parseLink(inner) {
+  const arrow = inner.lastIndexOf('->');
+  if (arrow >= 0) return { text: inner.slice(0, arrow), target: inner.slice(arrow + 2) };
+  const backArrow = inner.indexOf('<-');
+  if (backArrow >= 0) return { text: inner.slice(backArrow + 2), target: inner.slice(0, backArrow) };
+  const pipe = inner.lastIndexOf('|');
+  if (pipe >= 0) return { text: inner.slice(0, pipe), target: inner.slice(pipe + 1) };
+  return { text: inner, target: inner };
+}
+
+/**
+ * Render scenario folders as Twee 3 source
+ * scenarios: [{ config, content }], layout: scenario ID -> { x, y }
+ */
+function toTwee(scenarios, layout = {}) {
+  const start = scenarios.find(s => s.config.isStart);
+  const storyData = {
+    ifid: storyIfid(STORY_TITLE),
+    ...STORY_FORMAT,
+    ...(start ? { start: start.config.id } : {}),
+  };
+
+  const passages = [
+    `:: StoryTitle\n${STORY_TITLE}`,
+    `:: StoryData\n${JSON.stringify(storyData, null, 2)}`,
+  ];
+
+  scenarios.forEach(({ config, content }) => {
+    const { id, isStart, isEnding, ...rest } = config;
+    const tags = [isStart && 'start', isEnding && 'ending'].filter(Boolean);
+    // Only saved positions are exported, so an import never pins a passage the graph editor lays out itself
+    const position = layout[id];
+    const metadata = {
+      ...(position ? { position: `${Math.round(position.x)},${Math.round(position.y)}` } : {}),
+      scenario: rest,
+    };
+
+    const header = [`:: ${escapeName(id)}`, tags.length > 0 ? `[${tags.map(escapeName).join(' ')}]` : '', JSON.stringify(metadata)]
+      .filter(Boolean)
+      .join(' ');
+    const links = (config.choices ?? []).map(choice => formatLink(choice.text, choice.outcomes?.[0]?.next ?? ''));
+    const text = [escapeText(content.trimEnd()), links.join('\n')].filter(Boolean).join('\n\n');
+
+    passages.push(`${header}\n${text}`);
+  });
+
+  return passages.join('\n\n\n') + '\n';
+}
+
+// Split a passage header line into name, tags and metadata
+function parseHeader(line, lineNumber) {
+  let rest = line.slice(2).trim();
+  let metadata = {};
+  let tags = [];
+
+  // Metadata is a JSON object at the end of the line
+  const metaStart = rest.search(/(?<!\\)\{/);
+  if (metaStart >= 0) {
+    try {
+      metadata = JSON.parse(rest.slice(metaStart));
+    } catch (err) {
+      throw new Error(`line ${lineNumber}: invalid passage metadata (${err.message})`);
+    }
+    rest = rest.slice(0, metaStart).trim();
+  }
+
+  const tagStart = rest.search(/(?<!\\)\[/);
+  if (tagStart >= 0) {
+    const tagEnd = rest.search(/(?<!\\)\]\s*$/);
+    if (tagEnd < tagStart) throw new Error(`line ${lineNumber}: unclosed tag list`);
+    tags = rest.slice(tagStart + 1, tagEnd).split(/\s+/).filter(Boolean).map(unescapeName);
+    rest = rest.slice(0, tagStart).trim();
+  }
+
+  return { name: unescapeName(rest), tags, metadata };
+}
+
+/**
+ * Parse Twee 3 source into passages: [{ name, tags, metadata, text }]
+ */
+function parseTwee(source) {
+  const passages = [];
+  let current = null;
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach((line, index) => {
+    if (line.startsWith('::')) {
+      current = { ...parseHeader(line, index + 1), lines: [] };
+      passages.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    }
+  });
+
+  return passages.map(({ lines, ...passage }) => ({ ...passage, text: lines.join('\n').trim() }));
+}
+
+// Split passage text into content and the block of choice links that ends it
+function splitChoiceLinks(text) {
+  const lines = text.split('\n');
+  const links = [];
+  while (lines.length > 0) {
+    const match = lines[lines.length - 1].trim().match(/^\[\[(.+)\]\]$/);
+    if (!match) break;
+    links.unshift(parseLink(match[1]));
+    lines.pop();
+  }
+  return { content: unescapeText(lines.join('\n').trim()), links };
+}
+
+// Rebuild a choice list from the passage links, keeping each choice's metadata
+function mergeChoices(links, saved = []) {
+  const used = new Set();
+  const matches = links.map(link => {
+    const index = saved.findIndex((choice, i) => !used.has(i) && choice.text === link.text);
+    if (index >= 0) used.add(index);
+    return index;
+  });
+
+  // Link text edited in Twine: fall back to the choice in the same position
+  matches.forEach((match, i) => {
+    if (match < 0 && i < saved.length && !used.has(i)) {
+      matches[i] = i;
+      used.add(i);
+    }
+  });
+
+  return links.map((link, i) => {
+    const choice = matches[i] >= 0 ? saved[matches[i]] : null;
+    if (!choice) {
+      return { text: link.text, outcomes: [{ condition: 'default', next: link.target }] };
+    }
+    const [first, ...others] = choice.outcomes ?? [];
+    if (!first && !link.target) return { ...choice, text: link.text }; // No outcomes yet
+    return {
+      ...choice,
+      text: link.text,
+      outcomes: [{ ...(first ?? { condition: 'default' }), next: link.target }, ...others],
+    };
+  });
+}
+
+/**
+ * Turn Twee 3 source back into scenario folders
+ * saved: scenario ID -> current config, for passages that lost their metadata
+ * Returns { scenarios: [{ config, content }], layout }
+ */
+function fromTwee(source, saved = {}) {
+  const scenarios = [];
+  const layout = {};
+
+  for (const passage of parseTwee(source)) {
+    if (SPECIAL_PASSAGES.includes(passage.name)) continue;
+
+    const { content, links } = splitChoiceLinks(passage.text);
+    // Start and ending come from the tags, not the metadata
+    const { id, isStart, isEnding, choices, ...rest } = passage.metadata.scenario ?? saved[passage.name] ?? {};
+    const config = {
+      id: passage.name,
+      ...(passage.tags.includes('start') ? { isStart: true } : {}),
+      ...(passage.tags.includes('ending') ? { isEnding: true } : {}),
+      ...rest,
+      choices: mergeChoices(links, choices),
+    };
+    scenarios.push({ config, content: content ? `${content}\n` : '' });
+
+    const [x, y] = String(passage.metadata.position ?? '').split(',').map(Number);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      layout[passage.name] = { x, y };
+    }
+  }
+
+  return { scenarios, layout };
+}
+
+module.exports = { toTwee, fromTwee, parseTwee };
@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+
+/**
+ * Headless playthrough simulator: which builds can reach which endings?
+ *
+ * Generates characters from characterCreation.json with the same builder
+ * functions as the UI, then works out the exact odds of each ending when a
+ * decision policy plays for them (see src/src/engine/simulator.ts).
+ * Reads the compiled scenarios, so run the scenario build first.
+ *
+ * Usage (from src/):
+ *   npm run simulate -- [--sample=500 | --all] [--limit=10000]
+ *                       [--fix=race:halfling] [--fix=gear:gear-sword,gear-bow]
+ *                       [--policy=random] [--max-steps=50] [--seed=1] [--json=out.json]
+ *
+ *   --sample   Number of random builds to simulate (default 500)
+ *   --all      Enumerate every valid build instead (use --fix to narrow it down)
+ *   --limit    Stop enumerating after this many builds (default 10000)
+ *   --fix      Force the picks in a category; repeatable
+ *   --policy   Decision policy: random (default; odds > 0 means reachable),
+ *              weighted or in-character
+ *   --json     Also write per-build results to a file
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type {
+  AppearanceConfig,
+  CategoryId,
+  CharacterBuilderState,
+  CharacterCreationData,
+  ScenarioBundle,
+  VariableDeclarations,
+} from '../src/src/types/game';
+import { buildCharacter } from '../src/src/engine/characterBuilder';
+import { seedInventory } from '../src/src/engine/inventory';
+import { DECISION_POLICIES, getDecisionPolicy } from '../src/src/engine/autoplay';
+import { createRng, createSeed, parseSeed } from '../src/src/engine/random';
+import {
+  enumerateBuilds,
+  sampleBuild,
+  simulateCharacter,
+  type FixedPicks,
+  type RunOdds,
+} from '../src/src/engine/simulator';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = join(__dirname, '..', 'src', 'src', 'data');
+const PUBLIC_DIR = join(__dirname, '..', 'src', 'public');
+
+// Give up on sampling after this many failed attempts per requested build
+const SAMPLE_ATTEMPTS = 20;
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(file, 'utf-8')) as T;
+}
+
+function getArg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function parseFixedPicks(): FixedPicks {
+  const fixed: FixedPicks = {};
+  for (const arg of process.argv.filter(a => a.startsWith('--fix='))) {
+    const [category, ids] = arg.slice('--fix='.length).split(':');
+    if (!category || !ids) {
+      console.error(`Invalid ${arg} (expected --fix=category:option[,option])`);
+      process.exit(1);
+    }
+    fixed[category as CategoryId] = ids.split(',');
+  }
+  return fixed;
+}
+
+const percent = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+// Short description of a build, e.g. "Female Halfling Thief"
+function describeBuild(state: CharacterBuilderState, data: CharacterCreationData): string {
+  return (['sex', 'race', 'avocation'] as CategoryId[])
+    .map(categoryId => {
+      const category = data.categories.find(c => c.id === categoryId);
+      const optionId = state.selections[categoryId]?.[0];
+      return category?.options.find(o => o.id === optionId)?.name;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+const data = readJson<CharacterCreationData>(join(DATA_DIR, 'characterCreation.json'));
+const appearanceConfig = readJson<AppearanceConfig>(join(DATA_DIR, 'appearanceConfig.json'));
+const scenarios = readJson<ScenarioBundle>(join(PUBLIC_DIR, 'scenarios.json'));
+const declarations = readJson<VariableDeclarations>(join(PUBLIC_DIR, 'variables.json'));
+
+const policyId = getArg('policy') ?? 'random';
+if (!DECISION_POLICIES.some(p => p.id === policyId)) {
+  console.error(`Unknown policy '${policyId}' (expected ${DECISION_POLICIES.map(p => p.id).join(', ')})`);
+  process.exit(1);
+}
+const policy = getDecisionPolicy(policyId);
+const maxSteps = Number(getArg('max-steps') ?? 50);
+const fixed = parseFixedPicks();
+const exhaustive = process.argv.includes('--all');
+const limit = Number(getArg('limit') ?? 10000);
+const sampleSize = Number(getArg('sample') ?? 500);
+const seed = parseSeed(getArg('seed') ?? null) ?? createSeed();
+
+// Collect builds
+const builds: CharacterBuilderState[] = [];
+let truncated = false;
+if (exhaustive) {
+  for (const build of enumerateBuilds(data, appearanceConfig, fixed)) {
+    if (builds.length >= limit) {
+      truncated = true;
+      break;
+    }
+    builds.push(build);
+  }
+} else {
+  const rng = createRng(seed);
+  for (let attempt = 0; builds.length < sampleSize && attempt < sampleSize * SAMPLE_ATTEMPTS; attempt++) {
+    const build = sampleBuild(data, appearanceConfig, rng, fixed);
+    if (build) builds.push(build);
+  }
+}
+
+if (builds.length === 0) {
+  console.error('No valid builds match these options.');
+  process.exit(1);
+}
+
+console.log(
+  exhaustive
+    ? `Simulating ${builds.length} builds${truncated ? ` (stopped at --limit=${limit})` : ' (all valid builds)'}`
+    : `Simulating ${builds.length} random builds (seed ${seed})`
+);
+console.log(`Policy: ${policy.name} · max ${maxSteps} steps\n`);
+
+// Simulate
+const results: { build: CharacterBuilderState; odds: RunOdds }[] = builds.map(build => ({
+  build,
+  odds: simulateCharacter(seedInventory(buildCharacter(build), data.categories), scenarios, declarations, policy, maxSteps),
+}));
+
+// Per-ending summary
+const endings = Object.values(scenarios).filter(s => s.isEnding);
+const optionNames = new Map(data.categories.flatMap(c => c.options.map(o => [o.id, o.name] as const)));
+const pickCounts = new Map<string, number>();
+for (const { build } of results) {
+  for (const ids of Object.values(build.selections)) {
+    for (const id of ids) pickCounts.set(id, (pickCounts.get(id) ?? 0) + 1);
+  }
+}
+
+for (const ending of endings) {
+  const reaching = results.filter(r => (r.odds.endings[ending.id] ?? 0) > 0);
+  const title = ending.endingTitle ? `${ending.id} (${ending.endingTitle})` : ending.id;
+
+  if (reaching.length === 0) {
+    console.log(`${title}\n  never reached\n`);
+    continue;
+  }
+
+  const total = results.reduce((sum, r) => sum + (r.odds.endings[ending.id] ?? 0), 0);
+  const best = reaching.reduce((a, b) => (b.odds.endings[ending.id] > a.odds.endings[ending.id] ? b : a));
+
+  // Picks most over-represented among builds that can reach this ending
+  const reachCounts = new Map<string, number>();
+  for (const { build } of reaching) {
+    for (const ids of Object.values(build.selections)) {
+      for (const id of ids) reachCounts.set(id, (reachCounts.get(id) ?? 0) + 1);
+    }
+  }
+  const telling = [...reachCounts]
+    .map(([id, count]) => ({ id, lift: count / reaching.length / ((pickCounts.get(id) ?? 1) / results.length) }))
+    .filter(p => p.lift > 1.05)
+    .sort((a, b) => b.lift - a.lift)
+    .slice(0, 3)
+    .map(p => `${optionNames.get(p.id) ?? p.id} ×${p.lift.toFixed(1)}`);
+
+  console.log(title);
+  console.log(`  reachable by ${reaching.length}/${results.length} builds (${percent(reaching.length / results.length)})`);
+  console.log(`  average odds ${percent(total / results.length)} · best ${percent(best.odds.endings[ending.id])} (${describeBuild(best.build, data)})`);
+  if (telling.length > 0) {
+    console.log(`  more likely with: ${telling.join(', ')}`);
+  }
+  console.log();
+}
+
+const stuck = results.filter(r => r.odds.stuck > 0);
+const unfinished = results.filter(r => r.odds.unfinished > 0);
+if (stuck.length > 0) {
+  console.log(`⚠ ${stuck.length} builds can get stuck (no available choice or matching outcome)`);
+}
+if (unfinished.length > 0) {
+  console.log(`⚠ ${unfinished.length} builds can still be playing after ${maxSteps} steps`);
+}
+
+const jsonFile = getArg('json');
+if (jsonFile) {
+  const output = results.map(({ build, odds }) => ({
+    build: describeBuild(build, data),
+    selections: build.selections,
+    appearance: build.appearanceSelections,
+    ...odds,
+  }));
+  writeFileSync(jsonFile, JSON.stringify({ policy: policy.id, seed: exhaustive ? null : seed, results: output }, null, 2));
+  console.log(`\n✓ Wrote ${results.length} results to ${jsonFile}`);
+}
@@ -0,0 +1,132 @@
+/**
+ * Twee 3 converter: exchange scenarios with Twine
+ * Run with:
+ *   node tools/twee.js export [file]            # Default file: build/scenarios.twee
+ *   node tools/twee.js import <file> [--dry-run]
+ *
+ * Export writes every scenario folder (plus its graph editor position, if one
+ * is saved in scenarios/layout.json) as a Twee 3 story; import it in Twine with
+ * Library → Import. Import writes the passages back to scenario folders,
+ * creating new ones and rewriting changed ones. Unchanged scenarios are left
+ * byte-for-byte alone, and scenarios missing from the file are only reported.
+ * See tools/scenario-twee.js for how scenarios map onto passages.
+ *
+ * Run node tools/build-scenarios.js after an import to validate and compile.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { isDeepStrictEqual } = require('util');
+const { toTwee, fromTwee } = require('./scenario-twee');
+
+const SCENARIOS_DIR = path.join(__dirname, '..', 'scenarios');
+const LAYOUT_FILE = path.join(SCENARIOS_DIR, 'layout.json');
+const DEFAULT_TWEE_FILE = path.join(__dirname, '..', 'build', 'scenarios.twee');
+const SCENARIO_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Every scenario folder: { folder, config, content }
+function readScenarioFolders() {
+  return fs.readdirSync(SCENARIOS_DIR, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => {
+      const folderPath = path.join(SCENARIOS_DIR, dirent.name);
+      return {
+        folder: dirent.name,
+        config: JSON.parse(fs.readFileSync(path.join(folderPath, 'config.json'), 'utf-8')),
+        content: fs.readFileSync(path.join(folderPath, 'content.md'), 'utf-8'),
+      };
+    });
+}
+
+function readLayout() {
+  return fs.existsSync(LAYOUT_FILE) ? JSON.parse(fs.readFileSync(LAYOUT_FILE, 'utf-8')) : {};
+}
+
+function exportTwee(file) {
+  const scenarios = readScenarioFolders();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, toTwee(scenarios, readLayout()));
+  console.log(`✓ Exported ${scenarios.length} scenarios to ${file}`);
+}
+
+function importTwee(file, dryRun) {
+  const existing = new Map(readScenarioFolders().map(s => [s.config.id, s]));
+  const saved = Object.fromEntries([...existing].map(([id, s]) => [id, s.config]));
+  const { scenarios, layout } = fromTwee(fs.readFileSync(file, 'utf-8'), saved);
+  const errors = [];
+  let changed = 0;
+
+  for (const { config, content } of scenarios) {
+    if (!SCENARIO_ID_PATTERN.test(config.id)) {
+      errors.push(`${config.id}: passage name must be a scenario ID (lowercase letters, numbers and dashes)`);
+      continue;
+    }
+
+    const current = existing.get(config.id);
+    existing.delete(config.id);
+
+    // Compare parsed config and trimmed content so formatting-only differences don't rewrite files
+    const configChanged = !current || !isDeepStrictEqual(current.config, config);
+    const contentChanged = !current || current.content.trimEnd() !== content.trimEnd();
+    if (!configChanged && !contentChanged) continue;
+
+    changed++;
+    console.log(`  ${current ? '~' : '+'} ${config.id}`);
+    if (dryRun) continue;
+
+    const folderPath = path.join(SCENARIOS_DIR, current?.folder ?? config.id);
+    fs.mkdirSync(folderPath, { recursive: true });
+    if (configChanged) {
+      fs.writeFileSync(path.join(folderPath, 'config.json'), JSON.stringify(config, null, 2) + '\n');
+    }
+    if (contentChanged) {
+      fs.writeFileSync(path.join(folderPath, 'content.md'), content);
+    }
+  }
+
+  for (const id of existing.keys()) {
+    console.log(`  ? ${id} is not in ${path.basename(file)} (left as is)`);
+  }
+
+  // Only passages with position metadata move; nothing is written when no position changed
+  const currentLayout = readLayout();
+  const mergedLayout = { ...currentLayout, ...layout };
+  if (!isDeepStrictEqual(mergedLayout, currentLayout) && !dryRun) {
+    fs.writeFileSync(LAYOUT_FILE, JSON.stringify(mergedLayout, null, 2) + '\n');
+  }
+
+  if (errors.length > 0) {
+    console.log('\n⚠ Errors found:');
+    errors.forEach(e => console.log(`  - ${e}`));
+  }
+
+  const verb = dryRun ? 'would change' : 'changed';
+  console.log(`\n✓ ${scenarios.length} passages read, ${changed} scenarios ${verb}`);
+  if (changed > 0 && !dryRun) {
+    console.log('Run node tools/build-scenarios.js to validate and compile them');
+  }
+  return errors.length === 0;
+}
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const files = args.filter(arg => !arg.startsWith('--'));
+
+  try {
+    if (command === 'export') {
+      exportTwee(path.resolve(files[0] ?? DEFAULT_TWEE_FILE));
+      return true;
+    }
+    if (command === 'import' && files[0]) {
+      return importTwee(path.resolve(files[0]), args.includes('--dry-run'));
+    }
+  } catch (e) {
+    console.error(`✗ ${e.message}`);
+    return false;
+  }
+
+  console.error('Usage: node tools/twee.js export [file] | import <file> [--dry-run]');
+  return false;
+}
+
+process.exit(main() ? 0 : 1);